@@ -129,9 +129,8 @@ class EntryBuilder {
   async flush() {
     // import statements
     await this.write(await this.stmtImport.import('dotenv', ['config']));
-    await this.write(await this.stmtImport.import('astad', ['HttpApp', 'HttpKoa', 'HttpCors', 'Config']));
+    await this.write(await this.stmtImport.import('astad', ['HttpApp', 'HttpKoa', 'HttpAccessLog', 'HttpCors', 'HttpBodyParser', 'Config']));
     await this.write(await this.stmtImport.import('koa', 'Koa'));
-    await this.write(await this.stmtImport.import('koa-logger', 'koaLogger'));
     await this.write(await this.stmtImport.import('ejs', 'ejs'));
 
     // local import statements
@@ -156,17 +155,19 @@ class EntryBuilder {
     await this.newline();
     await this.comment('koa instance');
     await this.statement(`const app = new Koa()`);
-    await this.comment('add middleware directly to koa');
-    await this.statement(`app.use(koaLogger())`);
 
     // http app instance
     await this.newline();
     await this.comment('create http app');
     await this.statement(`const httpApp = new HttpApp({ use: new HttpKoa(app), conf })`);
     await this.comment('set middlewares to use astad context');
+    await this.comment('access log with request id and route name, first to time whole request');
+    await this.statement(`httpApp.use(HttpAccessLog.middleware({ format: 'combined' }))`);
     await this.startBlock(`if (conf.dvar('CORS', 'true')) {`)
     await this.statement('httpApp.use(new HttpCors())');
     await this.endBlock(`}`);
+    await this.comment('parse json, urlencoded and text bodies');
+    await this.statement('httpApp.use(HttpBodyParser.middleware())');
 
     // setup view engine
     await this.newline();
@@ -0,0 +1,90 @@
+import t from 'tap';
+
+import { Health } from './index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(health: Health) {
+  const client = TestHttpApp();
+  const app = client.app;
+  app.router(health.mount());
+  return client;
+}
+
+async function get(client: ReturnType<typeof TestHttpApp>, path: string) {
+  const res = await client.fetch(new Request(`http://localhost${path}`));
+  return { status: res.status, cache: res.headers.get('cache-control'), body: await res.json() };
+}
+
+t.test('Health reports checks with 200 and 503', async t => {
+  let queueDepth = 5;
+  const health = new Health();
+  health.register('db', async () => true);
+  health.register('queue', () => queueDepth < 10 && { depth: queueDepth });
+  health.register('disk', async () => { }, { live: true });
+  const client = createApp(health);
+
+  let res = await get(client, '/health/ready');
+  t.equal(res.status, 200);
+  t.equal(res.cache, 'no-store');
+  t.equal(res.body.status, 'up');
+  t.same(Object.keys(res.body.checks), ['db', 'queue', 'disk']);
+  t.match(res.body.checks.db, { status: 'up', duration: Number });
+  t.same(res.body.checks.queue.details, { depth: 5 });
+
+  queueDepth = 20;
+  res = await get(client, '/health/ready');
+  t.equal(res.status, 503);
+  t.equal(res.body.status, 'down');
+  t.equal(res.body.checks.queue.status, 'down');
+  t.equal(res.body.checks.db.status, 'up');
+
+  res = await get(client, '/health/live');
+  t.equal(res.status, 200);
+  t.same(Object.keys(res.body.checks), ['disk'], 'only live checks');
+});
+
+t.test('Health check errors and timeouts', async t => {
+  let aborted = false;
+  const health = new Health({ timeout: 50 });
+  health.register('db', async () => {
+    throw new Error('connection refused');
+  });
+  health.register('slow', signal => new Promise(resolve => {
+    const timer = setTimeout(resolve, 1000);
+    signal.addEventListener('abort', () => {
+      aborted = true;
+      clearTimeout(timer);
+    });
+  }));
+  health.register('fast', () => new Promise(resolve => setTimeout(resolve, 5)), { timeout: 20 });
+
+  const report = await health.ready();
+  t.equal(report.status, 'down');
+  t.match(report.checks['db'], { status: 'down', error: 'connection refused' });
+  t.match(report.checks['slow'], { status: 'down', error: 'Timed out after 50ms' });
+  t.ok(aborted, 'check signal is aborted');
+  t.equal(report.checks['fast'].status, 'up');
+
+  health.unregister('db');
+  health.unregister('slow');
+  t.equal((await health.ready()).status, 'up');
+});
+
+t.test('Health readiness fails once app shutdown starts', async t => {
+  const client = TestHttpApp();
+  const app = client.app;
+  const health = new Health({ app });
+  health.register('db', async () => true, { live: true });
+  app.router(health.mount());
+
+  t.equal((await get(client, '/health/ready')).status, 200);
+  await app.close();
+  const res = await get(client, '/health/ready');
+  t.equal(res.status, 503);
+  t.same(res.body, { status: 'down', checks: {}, shutdown: true });
+  t.equal((await get(client, '/health/live')).status, 200, 'liveness is not affected');
+
+  const manual = new Health();
+  manual.shutdown();
+  t.equal((await manual.ready()).status, 'down');
+});
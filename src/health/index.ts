@@ -0,0 +1,189 @@
+/**
+ * @module health
+ * @added v0.2.19
+ */
+
+import { HttpApp } from '../http/app.js';
+import { IHttpContext } from '../http/context.js';
+import { HttpRouter } from '../http/router/index.js';
+
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * check resolves when healthy, `false` or throwing marks it down,
+ * returned object is reported as check details
+ */
+export type HealthCheckFn = (signal: AbortSignal) => Promise<boolean | void | Record<string, any>> | boolean | void | Record<string, any>;
+
+export interface IHealthCheckOpts {
+  /**
+   * ms, check is down when it doesn't resolve in time
+   */
+  timeout?: number
+  /**
+   * include check in liveness, by default checks are only used for readiness
+   */
+  live?: boolean
+}
+
+export interface IHealthCheckResult {
+  status: HealthStatus
+  /**
+   * ms
+   */
+  duration: number
+  error?: string
+  details?: Record<string, any>
+}
+
+export interface IHealthReport {
+  status: HealthStatus
+  checks: Record<string, IHealthCheckResult>
+  /**
+   * set when readiness fails due to graceful shutdown
+   */
+  shutdown?: boolean
+}
+
+export interface IHealthOpts {
+  /**
+   * default check timeout in ms
+   */
+  timeout: number
+  /**
+   * readiness fails once app starts closing
+   */
+  app?: HttpApp
+}
+
+interface IHealthCheck {
+  name: string
+  fn: HealthCheckFn
+  timeout: number
+  live: boolean
+}
+
+/**
+ * Health checks registry, serves liveness and readiness reports.
+ */
+export class Health {
+  opts: IHealthOpts;
+  protected checks = new Map<string, IHealthCheck>();
+  protected _shutdown = false;
+
+  constructor(opts: Partial<IHealthOpts> = {}) {
+    this.opts = { timeout: 5000, ...opts };
+  }
+
+  /**
+   * register named check, check with same name is replaced
+   * @param name
+   * @param fn
+   * @param opts
+   */
+  register(name: string, fn: HealthCheckFn, opts: IHealthCheckOpts = {}) {
+    this.checks.set(name, {
+      name,
+      fn,
+      timeout: opts.timeout ?? this.opts.timeout,
+      live: opts.live ?? false,
+    });
+    return this;
+  }
+
+  unregister(name: string) {
+    this.checks.delete(name);
+  }
+
+  /**
+   * fail readiness, called automatically for app passed in options
+   */
+  shutdown() {
+    this._shutdown = true;
+  }
+
+  get shuttingDown() {
+    return this._shutdown || !!this.opts.app?.closing;
+  }
+
+  /**
+   * run liveness checks
+   * @returns {Promise<IHealthReport>}
+   */
+  async live(): Promise<IHealthReport> {
+    return this.report([...this.checks.values()].filter(check => check.live));
+  }
+
+  /**
+   * run all checks, report is down while shutting down
+   * @returns {Promise<IHealthReport>}
+   */
+  async ready(): Promise<IHealthReport> {
+    if (this.shuttingDown) {
+      // dependencies may already be closing, no need to check them
+      return { status: 'down', checks: {}, shutdown: true };
+    }
+    return this.report([...this.checks.values()]);
+  }
+
+  /**
+   * mount `GET <prefix>/live` and `GET <prefix>/ready`, responds 200 or 503
+   * @param router
+   * @param prefix
+   * @returns {HttpRouter}
+   */
+  mount(router: HttpRouter = new HttpRouter(), prefix = '/health') {
+    router.get(`${prefix}/live`, async (ctx: IHttpContext) => {
+      this.respond(ctx, await this.live());
+    }).as('health.live');
+    router.get(`${prefix}/ready`, async (ctx: IHttpContext) => {
+      this.respond(ctx, await this.ready());
+    }).as('health.ready');
+    return router;
+  }
+
+  protected respond(ctx: IHttpContext, report: IHealthReport) {
+    ctx.headers.set('Cache-Control', 'no-store');
+    ctx.json(report, report.status == 'up' ? 200 : 503);
+  }
+
+  protected async report(checks: IHealthCheck[]): Promise<IHealthReport> {
+    const results = await Promise.all(checks.map(check => this.run(check)));
+    const report: IHealthReport = { status: 'up', checks: {} };
+    checks.forEach((check, i) => {
+      report.checks[check.name] = results[i];
+      if (results[i].status == 'down') {
+        report.status = 'down';
+      }
+    });
+    return report;
+  }
+
+  protected async run(check: IHealthCheck): Promise<IHealthCheckResult> {
+    const started = Date.now();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${check.timeout}ms`));
+      }, check.timeout);
+    });
+
+    try {
+      const result = await Promise.race([(async () => check.fn(controller.signal))(), timeout]);
+      const duration = Date.now() - started;
+      if (result === false) {
+        return { status: 'down', duration };
+      }
+      if (result && typeof result == 'object') {
+        return { status: 'up', duration, details: result };
+      }
+      return { status: 'up', duration };
+    } catch (err: any) {
+      return { status: 'down', duration: Date.now() - started, error: err?.message || String(err) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+
+import { HttpAccessLog, HttpAccessLogOpts } from './accesslog.js';
+import { HttpApp } from './app.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+class UnavailableError extends Error { }
+
+function createApp(opts: Partial<HttpAccessLogOpts> = {}) {
+  const lines: string[] = [];
+  const client = TestHttpApp();
+  const app = client.app;
+  app.use(HttpAccessLog.middleware({ ...opts, stream: { write: (line: string) => lines.push(line) } }));
+  const router = new HttpRouter();
+  router.get('/users/:id', async ctx => {
+    ctx.put('user', { id: 7 });
+    ctx.json({ id: ctx.params['id'] });
+  }).as('users.show');
+  router.get('/download', async ctx => {
+    ctx.stream(Readable.from(['abc']), 'text/plain');
+  });
+  router.get('/fail', async () => {
+    throw new Error('failed');
+  });
+  router.get('/unavailable', async () => {
+    throw new UnavailableError('maintenance');
+  });
+  router.get('/documents/:id', async ctx => {
+    ctx.put('user', { _id: 'abc' });
+    ctx.json({ id: ctx.params['id'] });
+  });
+  router.get('/guest', async ctx => {
+    ctx.put('user', { name: 'guest' });
+    ctx.json({});
+  });
+  app.router(router);
+  app.mapError(UnavailableError, { status: 503 });
+  return { client, lines };
+}
+
+t.test('json format', async t => {
+  const { client, lines } = createApp();
+  const res = await client.fetch(new Request('http://localhost/users/1?expand=1', { headers: { 'user-agent': 'tap', referer: 'http://localhost/' } }));
+  t.equal(lines.length, 1);
+  t.ok(lines[0].endsWith('\n'));
+  const entry = JSON.parse(lines[0]);
+  t.match(entry, {
+    id: res.headers.get('x-req-id'),
+    method: 'GET',
+    url: '/users/1?expand=1',
+    route: 'users.show',
+    status: 200,
+    size: 10,
+    user: '7',
+    referrer: 'http://localhost/',
+    userAgent: 'tap',
+  });
+  t.type(entry.duration, 'number');
+  t.match(entry.time, /^\d{4}-\d\d-\d\dT/);
+});
+
+t.test('common and combined formats', async t => {
+  const common = createApp({ format: 'common' });
+  await common.client.fetch(new Request('http://localhost/users/2'));
+  t.match(common.lines[0], /^\S+ - 7 \[\d\d\/[A-Z][a-z]{2}\/\d{4}:\d\d:\d\d:\d\d \+0000\] "GET \/users\/2 HTTP\/-" 200 10\n$/);
+
+  const combined = createApp({ format: 'combined' });
+  await combined.client.fetch(new Request('http://localhost/missing', { headers: { 'user-agent': 'curl/8' } }));
+  t.match(combined.lines[0], /^\S+ - - \[.+\] "GET \/missing HTTP\/-" 404 \d+ "-" "curl\/8"\n$/);
+});
+
+t.test('custom tokens', async t => {
+  const { client, lines } = createApp({
+    format: ':id :method :route :status :size :response-time ms :res[content-type] :req[x-tenant] :tenant :unknown',
+    tokens: { tenant: (_entry, ctx) => ctx.headers.get('x-tenant')?.toUpperCase() },
+  });
+  const res = await client.fetch(new Request('http://localhost/users/3', { headers: { 'x-tenant': 'acme' } }));
+  t.match(lines[0], new RegExp(`^${res.headers.get('x-req-id')} GET users.show 200 10 \\d+\\.\\d{3} ms application/json acme ACME :unknown\n$`));
+
+  await client.fetch(new Request('http://localhost/download'));
+  t.match(lines[1], / GET \/download 200 - /, 'stream size is unknown');
+
+  await client.fetch(new Request('http://localhost/fail'));
+  t.match(lines[2], / GET \/fail 500 /, 'errors are logged with responded status');
+
+  await client.fetch(new Request('http://localhost/unavailable'));
+  t.match(lines[3], / GET \/unavailable 503 /, 'mapped errors are logged with mapped status');
+});
+
+t.test('user id of documents and users without id', async t => {
+  const { client, lines } = createApp({ format: ':remote-user' });
+  await client.fetch(new Request('http://localhost/documents/1'));
+  await client.fetch(new Request('http://localhost/guest'));
+  t.same(lines, ['abc\n', '-\n']);
+});
+
+t.test('http version of node request', async t => {
+  const lines: string[] = [];
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  app.use(HttpAccessLog.middleware({ format: 'common', stream: { write: (line: string) => lines.push(line) } }));
+  const server = await app.start();
+  t.teardown(() => app.close());
+
+  await (await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/missing`)).text();
+  t.match(lines[0], /"GET \/missing HTTP\/1\.1" 404 /);
+});
+
+t.test('format function and skip', async t => {
+  const { client, lines } = createApp({
+    format: entry => `${entry.method} ${entry.route ?? '-'}`,
+    skip: ctx => ctx.path == '/missing',
+  });
+  await client.fetch(new Request('http://localhost/missing'));
+  await client.fetch(new Request('http://localhost/users/4', { method: 'HEAD' }));
+  t.same(lines, ['HEAD users.show\n']);
+});
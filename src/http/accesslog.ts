@@ -0,0 +1,240 @@
+import * as internal from 'node:stream';
+
+import { IHttpContext } from './context.js';
+import { HTTP_KEY_REQ_ID, HTTP_KEY_ROUTE, HTTP_KEY_USER } from './consts.js';
+import { httpErrorStatus } from './error.js';
+import { HttpRoute } from './router/route.js';
+
+export interface IHttpAccessLogEntry {
+  time: Date
+  /**
+   * correlation id of request
+   */
+  id?: string
+  method: string
+  /**
+   * path with query string
+   */
+  url: string
+  /**
+   * name of matched route, route pattern unless named with `as()`
+   */
+  route?: string
+  status: number
+  /**
+   * response body bytes, undefined for streams
+   */
+  size?: number
+  /**
+   * ms
+   */
+  duration: number
+  ip: string
+  user?: string
+  referrer?: string
+  userAgent?: string
+}
+
+/**
+ * value of `:name[arg]` token, undefined is written as `-`
+ */
+export type HttpAccessLogToken = (entry: IHttpAccessLogEntry, ctx: IHttpContext, arg?: string) => string | number | undefined;
+
+export type HttpAccessLogFormat = 'common' | 'combined' | 'json' | string | ((entry: IHttpAccessLogEntry, ctx: IHttpContext) => string);
+
+export interface HttpAccessLogOpts {
+  /**
+   * predefined format, format string with `:token` placeholders or function
+   */
+  format: HttpAccessLogFormat
+  /**
+   * custom tokens, override built-in tokens of same name
+   */
+  tokens: Record<string, HttpAccessLogToken>
+  /**
+   * receives one line per request, newline is appended
+   */
+  stream: { write(line: string): any }
+  /**
+   * skip logging of request, e.g. health checks
+   */
+  skip?: (ctx: IHttpContext, entry: IHttpAccessLogEntry) => boolean
+}
+
+const defaultOptions = {
+  format: 'json',
+  tokens: {},
+  stream: process.stdout,
+};
+
+export const HTTP_ACCESS_LOG_FORMATS: Record<string, string> = {
+  common: ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :size',
+  combined: ':remote-addr - :remote-user [:date[clf]] ":method :url HTTP/:http-version" :status :size ":referrer" ":user-agent"',
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * date in common log format, `10/Oct/2000:13:55:36 +0000`
+ * @param date
+ * @returns {string}
+ */
+function clfDate(date: Date) {
+  return `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * version of node request behind context, undefined for fetch requests
+ * @param ctx
+ */
+function httpVersion(ctx: IHttpContext): string | undefined {
+  // node and express contexts keep request as `req`, koa context keeps koa ctx
+  const req = (ctx as any).req ?? (ctx as any).ctx?.req;
+  return typeof req?.httpVersion == 'string' ? req.httpVersion : undefined;
+}
+
+/**
+ * id of user in context, `id` or `_id` of documents
+ * @param user
+ */
+function userId(user: any): string | undefined {
+  const id = user !== null && typeof user == 'object' ? (user.id ?? user._id) : user;
+  return id === null || typeof id == 'undefined' ? undefined : String(id);
+}
+
+const builtinTokens: Record<string, HttpAccessLogToken> = {
+  'id': entry => entry.id,
+  'method': entry => entry.method,
+  'url': entry => entry.url,
+  'route': entry => entry.route,
+  'status': entry => entry.status,
+  'size': entry => entry.size,
+  'response-time': entry => entry.duration.toFixed(3),
+  'remote-addr': entry => entry.ip,
+  'remote-user': entry => entry.user,
+  'referrer': entry => entry.referrer,
+  'user-agent': entry => entry.userAgent,
+  'http-version': (_entry, ctx) => httpVersion(ctx),
+  'date': (entry, _ctx, arg) => {
+    switch (arg) {
+      case 'iso':
+        return entry.time.toISOString();
+      case 'web':
+        return entry.time.toUTCString();
+    }
+    return clfDate(entry.time);
+  },
+  'req': (_entry, ctx, arg) => arg ? ctx.headers.get(arg) : undefined,
+  'res': (_entry, ctx, arg) => {
+    const value = arg ? ctx.response.headers?.[arg.toLowerCase()] : undefined;
+    return Array.isArray(value) ? value.join(', ') : value;
+  },
+};
+
+/**
+ * Access log middleware, writes one line per request after response is set. Entries
+ * carry correlation id, matched route name, response size and duration.
+ */
+export class HttpAccessLog {
+  opts: HttpAccessLogOpts;
+  protected formatter: (entry: IHttpAccessLogEntry, ctx: IHttpContext) => string;
+
+  constructor(opts: Partial<HttpAccessLogOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+    this.formatter = this.compile(this.opts.format);
+  }
+
+  static middleware(opts: Partial<HttpAccessLogOpts> = {}) {
+    const accessLog = new HttpAccessLog(opts);
+    return accessLog.handle.bind(accessLog);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    const time = new Date();
+    const started = process.hrtime.bigint();
+    let status: number | null = null;
+    try {
+      await next();
+    } catch (err: any) {
+      status = httpErrorStatus(ctx, err);
+      throw err;
+    } finally {
+      const entry = this.entry(ctx, time, status ?? ctx.response.status);
+      entry.duration = Number(process.hrtime.bigint() - started) / 1e6;
+      if (!this.opts.skip?.(ctx, entry)) {
+        this.opts.stream.write(`${this.formatter(entry, ctx)}\n`);
+      }
+    }
+  }
+
+  protected entry(ctx: IHttpContext, time: Date, status: number): IHttpAccessLogEntry {
+    const route = ctx.value<HttpRoute | null>(HTTP_KEY_ROUTE);
+    const user = ctx.value<any>(HTTP_KEY_USER);
+    const id = ctx.value<string>(HTTP_KEY_REQ_ID);
+    return {
+      time,
+      id: typeof id == 'undefined' || id === null ? undefined : String(id),
+      method: ctx.method,
+      url: `${ctx.path}${ctx.url.search}`,
+      route: route ? route.name : undefined,
+      status,
+      size: this.size(ctx, status),
+      duration: 0,
+      ip: ctx.ip,
+      user: userId(user),
+      referrer: ctx.headers.get('referer') || ctx.headers.get('referrer'),
+      userAgent: ctx.headers.get('user-agent'),
+    };
+  }
+
+  /**
+   * bytes of response body, content-length when set
+   * @param ctx
+   * @param status
+   */
+  protected size(ctx: IHttpContext, status: number) {
+    const length = ctx.response.headers?.['content-length'];
+    if (length) {
+      return Number(length);
+    }
+    const body = ctx.response.body;
+    if (ctx.method.toUpperCase() == 'HEAD' || status == 204 || status == 304 || body === null || typeof body == 'undefined') {
+      return 0;
+    }
+    if (body instanceof internal.Readable) {
+      return undefined;
+    }
+    if (Buffer.isBuffer(body) || body instanceof Uint8Array) {
+      return body.byteLength;
+    }
+    return Buffer.byteLength(typeof body == 'string' ? body : JSON.stringify(body));
+  }
+
+  protected compile(format: HttpAccessLogFormat): (entry: IHttpAccessLogEntry, ctx: IHttpContext) => string {
+    if (typeof format == 'function') {
+      return format;
+    }
+    if (format == 'json') {
+      return entry => JSON.stringify({ ...entry, time: entry.time.toISOString(), duration: Math.round(entry.duration * 1000) / 1000 });
+    }
+    const template = HTTP_ACCESS_LOG_FORMATS[format] || format;
+    const tokens: Record<string, HttpAccessLogToken> = { ...builtinTokens, ...this.opts.tokens };
+    return (entry, ctx) => template.replace(/:([a-z][\w-]*)(?:\[([^\]]+)\])?/gi, (match: string, name: string, arg?: string) => {
+      if (!tokens[name]) {
+        return match;
+      }
+      const value = tokens[name](entry, ctx, arg);
+      return typeof value == 'undefined' || value === null || value === '' ? '-' : String(value);
+    });
+  }
+}
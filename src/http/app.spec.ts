@@ -0,0 +1,146 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+
+import { HttpApp, IHttpAppErrorInfo } from './app.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(opts: Record<string, any> = {}) {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf, ...opts });
+  const router = new HttpRouter();
+  router.get('/slow', async ctx => {
+    await new Promise(resolve => setTimeout(resolve, Number(ctx.query.get('ms') || 100)));
+    ctx.json({ done: true });
+  });
+  app.router(router);
+  return app;
+}
+
+function baseUrl(server: any) {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+t.test('HttpApp:start() runs start and ready hooks', async t => {
+  const app = createApp();
+  const calls: string[] = [];
+  app.onStart(() => calls.push('start'));
+  app.onReady(async () => calls.push('ready'));
+  t.equal(app.state, 'idle');
+
+  const server = await app.start();
+  t.same(calls, ['start', 'ready']);
+  t.equal(app.state, 'ready');
+  t.ok(server.listening);
+
+  await app.close();
+  t.equal(app.state, 'closed');
+});
+
+t.test('HttpApp:start() fails when start hook fails', async t => {
+  const app = createApp();
+  app.onStart(() => {
+    throw new Error('database unavailable');
+  });
+  await t.rejects(app.start(), /database unavailable/);
+});
+
+t.test('HttpApp:start() fails when address is in use', async t => {
+  const first = createApp();
+  const server = await first.start();
+  t.teardown(() => first.close());
+  const port = (server.address() as AddressInfo).port;
+
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: String(port) }, mergeEnv: false });
+  const second = new HttpApp({ use: new HttpNode(), conf });
+  await t.rejects(second.start(), { code: 'EADDRINUSE' });
+});
+
+t.test('HttpApp:close() waits for in-flight requests', async t => {
+  const app = createApp();
+  const calls: string[] = [];
+  app.onShutdown(() => calls.push(`shutdown:${app.inflightRequests}`));
+
+  const server = await app.start();
+  const url = baseUrl(server);
+  const pending = fetch(`${url}/slow?ms=200`).then(res => res.json());
+  // let request reach the handler
+  await new Promise(resolve => setTimeout(resolve, 50));
+  t.equal(app.inflightRequests, 1);
+
+  const closing = app.close();
+  t.equal(app.closing, true);
+  t.equal(app.close(), closing, 'close is idempotent');
+
+  t.same(await pending, { done: true });
+  await closing;
+  t.same(calls, ['shutdown:0']);
+  t.equal(server.listening, false);
+  await t.rejects(fetch(`${url}/slow`));
+});
+
+t.test('HttpApp:close() gives up after timeout', async t => {
+  const app = createApp();
+  let shutdown = false;
+  app.onShutdown(() => shutdown = true);
+
+  const server = await app.start();
+  const pending = fetch(`${baseUrl(server)}/slow?ms=1000`).catch(() => 'aborted');
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  const started = Date.now();
+  await app.close({ timeout: 100 });
+  t.ok(Date.now() - started < 900);
+  t.equal(shutdown, true);
+  t.equal(await pending, 'aborted');
+});
+
+t.test('HttpApp:onError() notifies listeners with request info', async t => {
+  const client = TestHttpApp({ logErrors: false });
+  const app = client.app;
+  const router = new HttpRouter();
+  router.get('/fail', async () => {
+    const err: any = new Error('not allowed');
+    err.status = '403';
+    throw err;
+  });
+  app.router(router);
+
+  const reported: Array<{ err: any, info: IHttpAppErrorInfo }> = [];
+  app.onError((err, _ctx, info) => {
+    reported.push({ err, info });
+  });
+  app.onError(async () => {
+    throw new Error('listener failure should not break response');
+  });
+
+  const logged: any[] = [];
+  const consoleError = console.error;
+  console.error = (...args: any[]) => logged.push(args);
+  t.teardown(() => {
+    console.error = consoleError;
+  });
+
+  const res = await client.fetch(new Request('http://localhost/fail', {
+    headers: { 'user-agent': 'tap', accept: 'application/json' },
+  }));
+  t.equal(res.status, 403);
+  t.same(await res.json(), { message: 'not allowed' });
+
+  t.equal(reported.length, 1);
+  t.equal(reported[0].err.message, 'not allowed');
+  t.match(reported[0].info, {
+    status: 403,
+    correlationId: res.headers.get('x-req-id'),
+    method: 'GET',
+    path: '/fail',
+    href: 'http://localhost/fail',
+    userAgent: 'tap',
+  });
+
+  await new Promise(resolve => setImmediate(resolve));
+  t.equal(logged.length, 1, 'only listener failure is logged');
+  t.match(logged[0][0].message, /listener failure/);
+});
@@ -1,11 +1,19 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
-import { Server } from 'node:http';
+import { RequestListener, Server } from 'node:http';
+import * as http2 from 'node:http2';
 import { IHttpContext } from './context.js';
 import { composeAsync } from '../support/compose.js';
-import { HttpRouter } from './index.js';
+import { HttpRoute, HttpRouter } from './index.js';
 import { IViewEngine } from './view.js';
-import { HTTP_KEY_REQ_ID, HTTP_KEY_VIEW_PROVIDER } from './consts.js';
+import { HTTP_KEY_ERROR_FORMAT, HTTP_KEY_ERROR_STATUS, HTTP_KEY_REQ_ID, HTTP_KEY_ROUTE, HTTP_KEY_SPAN, HTTP_KEY_TRUST_PROXY, HTTP_KEY_UPGRADE, HTTP_KEY_VIEW_PROVIDER } from './consts.js';
 import { ResultError } from '../support/result.js';
+import { HttpCorrelationId, HttpCorrelationIdGenerator, IHttpCorrelationIdOpts, runWithCorrelationId } from './correlation.js';
+import { HTTP_PROBLEM_CONTENT_TYPE, HttpErrorFormat, HttpErrorMapping, HttpErrorMatcher, HttpErrorRegistry, IHttpErrorMapping, httpProblem } from './error.js';
+import { HttpWebSocketServer, IHttpWebSocketOpts } from './ws.js';
+import { HttpAppServer, HttpListenScheme, IHttpListenAddress, createHttpAppServer, formatListenAddress, httpTlsOptions, parseListenAddress } from './listen.js';
+import { HttpCluster, IHttpClusterOpts, isHttpClusterWorker, runHttpClusterWorker } from './cluster.js';
+import { HttpTrustProxy, HttpTrustProxyOpt } from './proxy.js';
+import { TraceSpan, Tracer, traceChild, traceMiddleware } from '../trace/index.js';
 
 export class HttpApp {
   protected asyncLocalStorage?: AsyncLocalStorage<any>;
@@ -13,9 +21,18 @@ export class HttpApp {
   protected composedMiddleware: any = null;
   protected _router: HttpRouter;
   protected viewProvider: IViewEngine | null = null;
-  protected correlationIdCount = 0;
-  protected correlationIdGenerator: HttpCorrelationIdGenerator = () => this.correlationIdCount++;
-  protected errorListeners = [];
+  protected correlation: HttpCorrelationId;
+  protected errorListeners: HttpAppErrorListener[] = [];
+  protected errorRegistry = new HttpErrorRegistry();
+  protected servers: HttpAppServer[] = [];
+  protected http2Sessions = new Set<http2.ServerHttp2Session>();
+  protected webSocketServers: HttpWebSocketServer[] = [];
+  protected inflight = 0;
+  protected drainListeners: Array<() => void> = [];
+  protected hooks: Record<HttpAppLifecycle, HttpAppHook[]> = { start: [], ready: [], shutdown: [] };
+  protected closePromise: Promise<void> | null = null;
+  protected _state: HttpAppState = 'idle';
+  protected signalsHandled = false;
 
   constructor(protected opts: IHttpAppOpts) {
     if (this.opts.asyncLocalStorage) {
@@ -25,6 +42,15 @@ export class HttpApp {
       this.opts.defaultErrorMessage = 'Internal server error.';
     }
     this._router = new HttpRouter();
+    this.correlation = new HttpCorrelationId(this.opts.correlationId);
+  }
+
+  /**
+   * servers created by listen(), one per address
+   * @returns {HttpAppServer[]}
+   */
+  getServers() {
+    return [...this.servers];
   }
 
   getAsyncLocalStorage() {
@@ -63,33 +89,143 @@ export class HttpApp {
     this._router.use(...args);
   }
 
+  /**
+   * hook executed by start(), before server starts listening
+   * @param hook
+   */
+  onStart(hook: HttpAppHook) {
+    this.hooks.start.push(hook);
+  }
+
+  /**
+   * hook executed once server is listening
+   * @param hook
+   */
+  onReady(hook: HttpAppHook) {
+    this.hooks.ready.push(hook);
+  }
+
+  /**
+   * hook executed on close, after in-flight requests are drained,
+   * use it to close sessions, database connections, queues etc
+   * @param hook
+   */
+  onShutdown(hook: HttpAppHook) {
+    this.hooks.shutdown.push(hook);
+  }
+
+  get state() {
+    return this._state;
+  }
+
+  /**
+   * app is shutting down or closed
+   */
+  get closing() {
+    return this._state == 'closing' || this._state == 'closed';
+  }
+
+  /**
+   * number of requests being handled
+   */
+  get inflightRequests() {
+    return this.inflight;
+  }
+
+  /**
+   * listen for exceptions caught by http app, listeners are not awaited
+   * @param listener
+   */
+  onError(listener: HttpAppErrorListener) {
+    this.errorListeners.push(listener);
+  }
+
+  /**
+   * map exception to response, applies to json and view engine error rendering
+   * @example
+   * httpApp.mapError(NotFoundError, { status: 404 });
+   * httpApp.mapError(RetryLaterError, err => ({ status: 503, headers: { 'Retry-After': String(err.seconds) } }));
+   * @param matcher error class or predicate
+   * @param mapping
+   */
+  mapError<E = any>(matcher: HttpErrorMatcher<E>, mapping: HttpErrorMapping<E>) {
+    this.errorRegistry.register(matcher, mapping);
+  }
+
+  /**
+   * log error and notify error listeners
+   * @param err
+   * @param ctx
+   * @param status normalized http status
+   */
+  protected report(err: any, ctx: IHttpContext, status: number) {
+    if (this.opts.logErrors !== false && !this.opts.dontHandleException) {
+      console.error(err);
+    }
+    if (!this.errorListeners.length) {
+      return;
+    }
+    const info: IHttpAppErrorInfo = {
+      status,
+      correlationId: ctx.value<string>(HTTP_KEY_REQ_ID),
+      method: ctx.method,
+      path: ctx.path,
+      href: ctx.href,
+      ip: ctx.ip,
+      userAgent: ctx.headers.get('user-agent'),
+    };
+    for (const listener of this.errorListeners) {
+      try {
+        Promise.resolve(listener(err, ctx, info)).catch(listenerErr => console.error(listenerErr));
+      } catch (listenerErr) {
+        console.error(listenerErr);
+      }
+    }
+  }
+
   correlationIdProvider(provider: HttpCorrelationIdGenerator) {
-    this.correlationIdGenerator = provider;
+    this.correlation.use(provider);
   }
 
   handler() {
     // compose middlewares
-    this.composedMiddleware = composeAsync(this.middlewares);
+    this.composedMiddleware = composeAsync(this.middlewares, traceMiddleware);
 
     const middleware = async (ctx: IHttpContext, next: any) => {
       try {
-        const reqid = this.correlationIdGenerator().toString();
-        ctx.headers.set('x-req-id', reqid);
         // put view provider in context
-        ctx.put(HTTP_KEY_REQ_ID, reqid);
         ctx.put(HTTP_KEY_VIEW_PROVIDER, this.viewProvider);
+        // adapters use it to format aborted responses
+        ctx.put(HTTP_KEY_ERROR_FORMAT, this.opts.errorFormat || 'default');
+        // middlewares see errors before app responds them, e.g. metrics and access log
+        ctx.put(HTTP_KEY_ERROR_STATUS, (err: any) => {
+          try {
+            return this.errorStatus(err, this.errorRegistry.resolve(err, ctx));
+          } catch {
+            return 500;
+          }
+        });
+
+        // find route before application middlewares, so they can read route meta,
+        // upgrade requests are matched with websocket routes only
+        const route = this._router.find(ctx.value(HTTP_KEY_UPGRADE) ? 'WS' : ctx.method as any, ctx.path, ctx.params);
+        ctx.put(HTTP_KEY_ROUTE, route);
+        const span = ctx.value<TraceSpan | null>(HTTP_KEY_SPAN);
+        if (route && span) {
+          // name request span by route pattern, paths would make names unbounded
+          span.name = `${ctx.method} ${route.name}`;
+          span.setAttribute('http.route', route.name);
+        }
 
         // execute application middlewares
         await this.composedMiddleware(ctx, async (ctx: IHttpContext, next: any) => {
-          // find route
-          const route = this._router.find(ctx.method as any, ctx.path, ctx.params);
           if (!route) {
             // handover control to next middleware
             await next();
             return;
           }
           // execute route, it will handover control to next middleware
-          await route.getComposedHandler()(ctx, next);
+          await traceChild(`route ${route.name}`, () => route.getComposedHandler(traceMiddleware)(ctx, next), { 'http.route': route.name });
         });
 
         if (ctx.aborted && (this.viewProvider && ctx.accepts('html'))) {
@@ -102,71 +238,365 @@ export class HttpApp {
         // handover control to framework
         await next();
       } catch (err: any) {
+        let mapped: IHttpErrorMapping | null;
+        try {
+          mapped = this.errorRegistry.resolve(err, ctx);
+        } catch (mappingErr: any) {
+          // broken matcher or mapper must not escape error handling
+          this.report(mappingErr, ctx, 500);
+          mapped = { status: 500, expose: false };
+        }
+        const status = this.errorStatus(err, mapped);
+
+        this.report(err, ctx, status);
+
         if (this.opts.dontHandleException) {
           throw err;
         }
 
-        console.error(err);
-        // Normalize error code to a valid HTTP status number
-        const rawCode = err.statusCode || err.status || err.code || 500;
-        let status = typeof rawCode === 'number' ? rawCode : parseInt(rawCode, 10);
-        if (Number.isNaN(status) || status < 100 || status > 599) {
-          status = 500;
-        }
         err.code = status;
-        const message = status < 500 || err.expose ? err.message : this.opts.defaultErrorMessage as string;
+        const expose = mapped?.expose ?? (status < 500 || err.expose);
+        const message = mapped?.message || (expose ? err.message : this.opts.defaultErrorMessage as string);
+        const problem = this.opts.errorFormat == 'problem';
+        let data: any = mapped?.body ?? { message };
+        if (!mapped?.body && err.code == 422 && err.errors) {
+          data.errors = err.errors;
+        }
+        if (problem) {
+          const { message: _, ...extensions } = {
+            ...(err instanceof ResultError ? err.data : {}),
+            ...data,
+          };
+          data = httpProblem({
+            status,
+            detail: message,
+            type: mapped?.type,
+            instance: ctx.value<string>(HTTP_KEY_REQ_ID),
+            extensions,
+          });
+        }
 
         if (this.viewProvider && ctx.accepts('html')) {
           try {
-            const resultError = ResultError.try(err);
-            const renderedError = await this.viewProvider.renderError(ctx, resultError);
+            const httpError = mapped ? { status, message, expose, data: mapped.body } : ResultError.try(err);
+            const renderedError = await this.viewProvider.renderError(ctx, httpError);
             ctx.reply({
               status: status,
               body: renderedError,
             });
           } catch (renderErr: any) {
-            console.error(renderErr);
-            // Fallback to JSON using original error info (err.code was set at line 110)
-            const data: any = { message };
-            if (err.code == 422 && err.errors) {
-              data.errors = err.errors;
-            }
+            this.report(renderErr, ctx, 500);
+            // Fallback to JSON using original error info
             ctx.json(data, err.code);
+            if (problem) {
+              ctx.headers.set('content-type', HTTP_PROBLEM_CONTENT_TYPE);
+            }
           }
         } else {
-          const data: any = { message };
-          if (err.code == 422 && err.errors) {
-            data.errors = err.errors;
-          }
           ctx.json(data, err.code);
+          if (problem) {
+            ctx.headers.set('content-type', HTTP_PROBLEM_CONTENT_TYPE);
+          }
+        }
+
+        if (mapped?.headers) {
+          for (const key in mapped.headers) {
+            ctx.headers.set(key, mapped.headers[key]);
+          }
         }
       }
     };
 
+    const identified = (ctx: IHttpContext, next: any) => {
+      const reqid = this.correlation.resolve(ctx);
+      ctx.headers.set('x-req-id', reqid);
+      ctx.put(HTTP_KEY_REQ_ID, reqid);
+      // expose id to code without access to ctx
+      return runWithCorrelationId(reqid, () => middleware(ctx, next));
+    };
+
+    const tracked = async (ctx: IHttpContext, next: any) => {
+      this.inflight++;
+      if (this.closing) {
+        // ask client to not reuse connection
+        ctx.headers.set('connection', 'close');
+      }
+      try {
+        return await identified(ctx, next);
+      } finally {
+        this.inflight--;
+        if (!this.inflight) {
+          this.drainListeners.splice(0).forEach(listener => listener());
+        }
+      }
+    };
+
+    const trustProxy = typeof this.opts.trustProxy == 'undefined'
+      ? HttpTrustProxy.fromConf(this.opts.conf)
+      : HttpTrustProxy.from(this.opts.trustProxy);
+
+    const traced = (ctx: IHttpContext, next: any) => {
+      if (trustProxy) {
+        // contexts resolve ip, protocol and host with it
+        ctx.put(HTTP_KEY_TRUST_PROXY, trustProxy);
+      }
+      const tracer = this.opts.tracer;
+      if (!tracer) {
+        return tracked(ctx, next);
+      }
+      const opts = {
+        parent: tracer.extract(ctx.headers.get('traceparent')),
+        kind: 'server' as const,
+        attributes: { 'http.method': ctx.method, 'url.path': ctx.path },
+      };
+      return tracer.trace(`${ctx.method}`, async span => {
+        ctx.put(HTTP_KEY_SPAN, span);
+        try {
+          return await tracked(ctx, next);
+        } finally {
+          span.setAttributes({ 'http.status_code': ctx.response.status, 'request.id': ctx.value<string>(HTTP_KEY_REQ_ID) });
+          if (ctx.response.status >= 500) {
+            span.setStatus('error');
+          }
+        }
+      }, opts);
+    };
+
     if (this.asyncLocalStorage) {
       return (ctx: IHttpContext, next: any) => {
-        return (this.asyncLocalStorage as AsyncLocalStorage<any>).run(ctx, async () => await middleware(ctx, next));
+        return (this.asyncLocalStorage as AsyncLocalStorage<any>).run(ctx, async () => await traced(ctx, next));
       };
     }
 
-    return middleware;
+    return traced;
   }
 
-  listen(cb?: Function): Server {
+  /**
+   * listen on every address of `addresses()`, returns server of first address
+   * @param cb called once all servers are listening
+   * @returns {HttpAppServer}
+   */
+  listen(cb?: Function): HttpAppServer {
     const handler = this.handler();
 
     this.opts.use.handler(handler);
 
-    return this.opts.use.listen(
-      this.port(),
-      this.host(),
-      () => {
-        console.info(`Server is listening ${this.address()}.`);
+    const addresses = this.addresses();
+    // framework adapters serve single http address with their own server
+    const own = addresses.length > 1 || addresses[0].scheme != 'http';
+    if (own && typeof this.opts.use.callback != 'function') {
+      throw new Error('Adapter has no callback(), TLS, HTTP/2 and multiple addresses are not supported.');
+    }
+    const tls = own ? httpTlsOptions(this.opts.conf) : null;
+    const listener = own ? (this.opts.use.callback as () => RequestListener)() : null;
+
+    let pending = addresses.length;
+    const servers: HttpAppServer[] = addresses.map(address => {
+      const listening = async () => {
+        // port 0 is assigned by os
+        const bound = server.address();
+        const port = bound && typeof bound == 'object' ? bound.port : address.port;
+        console.info(`Server is listening ${formatListenAddress({ ...address, port })}.`);
+        if (--pending) {
+          return;
+        }
+        this._state = 'ready';
+        await this.runHooks('ready');
         if (typeof cb == 'function') {
           cb();
         }
-      },
-    );
+      };
+      const server: HttpAppServer = listener
+        ? createHttpAppServer(address, listener, tls)
+        : this.opts.use.listen(address.port, address.host, listening);
+      if (!listener) {
+        return server;
+      }
+      if (address.scheme == 'h2') {
+        // sessions are closed gracefully on close()
+        (server as http2.Http2SecureServer).on('session', session => {
+          this.http2Sessions.add(session);
+          session.once('close', () => this.http2Sessions.delete(session));
+        });
+      }
+      return server.listen(address.port, address.host, listening);
+    });
+
+    // upgrades are left to listeners of others, e.g. socket.io, when app has no websocket routes
+    const webSocketRoutes = this._router.routes.some(route => this.isWebSocketRoute(route));
+    for (const server of servers) {
+      this.servers.push(server);
+      if (!webSocketRoutes) {
+        continue;
+      }
+      // websocket routes are served by same handler
+      const webSocketServer = new HttpWebSocketServer(handler, this.opts.webSocket, path => this.isWebSocketRoute(this._router.find('WS', path)));
+      server.on('upgrade', webSocketServer.listener(server));
+      this.webSocketServers.push(webSocketServer);
+    }
+    this.handleSignals();
+
+    return servers[0];
+  }
+
+  /**
+   * run start hooks and listen, resolves once server is ready
+   * @returns {Promise<HttpAppServer>}
+   */
+  async start(): Promise<HttpAppServer> {
+    this._state = 'starting';
+    await this.runHooks('start', true);
+    return new Promise((resolve, reject) => {
+      const count = this.servers.length;
+      const server = this.listen(() => {
+        servers.forEach(item => item.removeListener('error', failed));
+        resolve(server);
+      });
+      // listen errors, e.g. address in use, would be uncaught otherwise
+      const servers = this.servers.slice(count);
+      const failed = (err: Error) => {
+        servers.forEach(item => item.close());
+        reject(err);
+      };
+      servers.forEach(item => item.on('error', failed));
+    });
+  }
+
+  /**
+   * fork workers in primary process, start app in workers. Resolves with supervisor in primary,
+   * once all workers are ready, and with null in workers, once app is started
+   * @param opts
+   * @returns {Promise<HttpCluster|null>}
+   */
+  async cluster(opts: Partial<IHttpClusterOpts> = {}): Promise<HttpCluster | null> {
+    if (isHttpClusterWorker()) {
+      await runHttpClusterWorker(this, opts.signals);
+      return null;
+    }
+    const supervisor = new HttpCluster(opts);
+    await supervisor.start();
+    return supervisor;
+  }
+
+  /**
+   * stop accepting connections, wait for in-flight requests and run shutdown hooks
+   * @param opts
+   * @returns {Promise<void>}
+   */
+  close(opts: IHttpAppCloseOpts = {}): Promise<void> {
+    if (this.closePromise) {
+      return this.closePromise;
+    }
+    const timeout = opts.timeout ?? this.opts.shutdownTimeout ?? 10000;
+    this._state = 'closing';
+    this.closePromise = (async () => {
+      const deadline = Date.now() + timeout;
+      // upgraded connections would hold server
+      this.webSocketServers.forEach(webSocketServer => webSocketServer.close());
+      const closed = this.servers.map(server => new Promise<void>(resolve => {
+        server.close(() => resolve());
+      }));
+      // http2 sessions stop accepting streams and close once active streams end
+      this.http2Sessions.forEach(session => session.close());
+      // keep-alive connections would hold server, close them as soon as they are idle
+      const closeIdle = () => this.servers.forEach(server => (server as Server).closeIdleConnections?.());
+      const idle = setInterval(closeIdle, 50);
+      closeIdle();
+
+      if (!await this.drain(timeout)) {
+        console.warn(`[HttpApp] ${this.inflight} request(s) still in-flight after ${timeout}ms, closing connections.`);
+      }
+      const forced = setTimeout(() => {
+        this.servers.forEach(server => (server as Server).closeAllConnections?.());
+        this.http2Sessions.forEach(session => session.destroy());
+      }, Math.max(deadline - Date.now(), 0));
+      await Promise.all(closed);
+      clearInterval(idle);
+      clearTimeout(forced);
+
+      await this.runHooks('shutdown');
+      // flush spans of last requests
+      await this.opts.tracer?.shutdown();
+      this._state = 'closed';
+    })();
+    return this.closePromise;
+  }
+
+  /**
+   * response status of error
+   * @param err
+   * @param mapped mapping of `mapError()`
+   * @returns {number}
+   */
+  protected errorStatus(err: any, mapped: IHttpErrorMapping | null) {
+    // Normalize error code to a valid HTTP status number
+    const rawCode = mapped?.status || err.statusCode || err.status || err.code || 500;
+    const status = typeof rawCode === 'number' ? rawCode : parseInt(rawCode, 10);
+    if (Number.isNaN(status) || status < 100 || status > 599) {
+      return 500;
+    }
+    return status;
+  }
+
+  protected isWebSocketRoute(route: HttpRoute | false) {
+    // catch-all routes of any() do not claim upgrades
+    return !!route && Array.isArray(route.methods) && route.methods.includes('WS');
+  }
+
+  protected drain(timeout: number) {
+    return new Promise<boolean>(resolve => {
+      if (!this.inflight) {
+        resolve(true);
+        return;
+      }
+      const timer = setTimeout(() => {
+        this.drainListeners = this.drainListeners.filter(listener => listener !== done);
+        resolve(false);
+      }, timeout);
+      const done = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      this.drainListeners.push(done);
+    });
+  }
+
+  /**
+   * execute hooks in registration order
+   * @param lifecycle
+   * @param bail throw on first failure, otherwise failure is logged
+   */
+  protected async runHooks(lifecycle: HttpAppLifecycle, bail = false) {
+    for (const hook of this.hooks[lifecycle]) {
+      try {
+        await hook(this);
+      } catch (err) {
+        if (bail) {
+          throw err;
+        }
+        console.error(err);
+      }
+    }
+  }
+
+  protected handleSignals() {
+    if (!this.opts.signals || this.signalsHandled) {
+      return;
+    }
+    this.signalsHandled = true;
+    const signals: NodeJS.Signals[] = Array.isArray(this.opts.signals) ? this.opts.signals : ['SIGTERM', 'SIGINT'];
+    for (const signal of signals) {
+      process.once(signal, () => {
+        console.info(`Received ${signal}, shutting down.`);
+        this.close().then(
+          () => process.exit(0),
+          (err) => {
+            console.error(err);
+            process.exit(1);
+          },
+        );
+      });
+    }
   }
 
   port(): string {
@@ -180,12 +610,32 @@ export class HttpApp {
   address(): string {
     return `${this.host()}:${this.port()}`;
   }
+
+  /**
+   * addresses from comma separated `APP_LISTEN`, e.g. `https://0.0.0.0:8443,http://127.0.0.1:9090`,
+   * otherwise `APP_HOST`/`APP_PORT`. Scheme defaults to `h2` with `APP_HTTP2`, `https` with `APP_TLS_CERT`
+   * @returns {IHttpListenAddress[]}
+   */
+  addresses(): IHttpListenAddress[] {
+    const conf = this.opts.conf;
+    const http2 = ['true', '1'].includes(conf.var('APP_HTTP2') || '');
+    const scheme: HttpListenScheme = http2 ? 'h2' : (conf.var('APP_TLS_CERT') ? 'https' : 'http');
+    const list = (conf.var('APP_LISTEN') || '').split(',').filter(address => address.trim());
+    if (!list.length) {
+      return [{ scheme, host: this.host(), port: parseInt(this.port(), 10) }];
+    }
+    return list.map(address => parseListenAddress(address, { scheme, host: this.host() }));
+  }
 }
 
 export interface IHttpAppOptUse {
   handler(fn: any): void
   use(...args: any): any
   listen(...args: any): Server
+  /**
+   * request listener, required to serve TLS, HTTP/2 or multiple addresses
+   */
+  callback?(): RequestListener
 }
 
 export interface IHttpAppOptConf {
@@ -199,15 +649,79 @@ export interface IHttpAppOpts {
   use: IHttpAppOptUse
   conf: IHttpAppOptConf
   asyncLocalStorage?: boolean | AsyncLocalStorage<any>,
+  /**
+   * correlation id format and trusted incoming headers
+   */
+  correlationId?: IHttpCorrelationIdOpts
   host?: string,
   port?: number,
   defaultErrorMessage?: string
+  /**
+   * error response body format, problem for RFC 9457 application/problem+json
+   * @default "default"
+   */
+  errorFormat?: HttpErrorFormat
   /**
    * set true, when you want to handle exception with framework instead of http app
    */
   dontHandleException?: boolean
+  /**
+   * set false to stop logging caught exceptions to console, use onError() to report them
+   * @default true
+   */
+  logErrors?: boolean
+  /**
+   * close app gracefully on signals, true for SIGTERM and SIGINT
+   */
+  signals?: boolean | NodeJS.Signals[]
+  /**
+   * max time in ms to wait for in-flight requests on close
+   * @default 10000
+   */
+  shutdownTimeout?: number
+  /**
+   * options of sockets accepted by `router.ws()` routes
+   */
+  webSocket?: Partial<IHttpWebSocketOpts>
+  /**
+   * trace requests, middlewares and route handlers, incoming `traceparent` continues trace
+   */
+  tracer?: Tracer
+  /**
+   * proxies trusted to set client ip, protocol and host with `Forwarded` or `X-Forwarded-*`,
+   * falls back to `APP_TRUST_PROXY`
+   */
+  trustProxy?: HttpTrustProxyOpt | HttpTrustProxy
 }
 
+export interface IHttpAppCloseOpts {
+  /**
+   * max time in ms to wait for in-flight requests
+   */
+  timeout?: number
+}
+
+export interface IHttpAppErrorInfo {
+  /**
+   * normalized http status
+   */
+  status: number
+  correlationId?: string
+  method: string
+  path: string
+  href: string
+  ip: string
+  userAgent?: string
+}
+
+export type HttpAppErrorListener = (err: any, ctx: IHttpContext, info: IHttpAppErrorInfo) => Promise<any> | any;
+
+export type HttpAppState = 'idle' | 'starting' | 'ready' | 'closing' | 'closed';
+
+export type HttpAppLifecycle = 'start' | 'ready' | 'shutdown';
+
+export type HttpAppHook = (app: HttpApp) => Promise<any> | any;
+
 export interface IHttpMiddleware {
   handle(ctx: IHttpContext, next: any): Promise<any>
 }
@@ -215,5 +729,3 @@ export interface IHttpMiddleware {
 export type HttpMiddlewareCallback = (ctx: IHttpContext, next: any) => Promise<any>;
 
 export type HttpAppMiddleware = HttpMiddlewareCallback | IHttpMiddleware;
-
-export type HttpCorrelationIdGenerator = () => { toString(): string };
\ No newline at end of file
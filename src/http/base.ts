@@ -0,0 +1,392 @@
+import { STATUS_CODES, ServerResponse } from 'node:http';
+import * as internal from 'node:stream';
+
+import { HttpRequestHeaders, HttpRequestQuery, HttpResponseCookies, IHttpContext } from './context.js';
+import { IHttpError, IHttpResponse } from './response.js';
+import { IViewEngine, viewData } from './view.js';
+import { HTTP_KEY_ERROR_FORMAT, HTTP_KEY_REQ_ID, HTTP_KEY_VIEW_PROVIDER } from './consts.js';
+import { HTTP_PROBLEM_CONTENT_TYPE, HttpError, HttpErrorFormat, httpAbortBody } from './error.js';
+import { acceptsType, isType } from './negotiate.js';
+import { HttpSse, IHttpSseOpts } from './sse.js';
+import { IHttpForwarded, httpForwarded } from './proxy.js';
+
+const EMPTY_STATUS = new Set([204, 205, 304]);
+
+/**
+ * final response, ready to be written by adapter
+ */
+export interface IHttpPayload {
+  status: number
+  headers: Record<string, string | string[]>
+  body: string | Buffer | internal.Readable | null
+}
+
+/**
+ * signal aborted when client closes connection before response is finished
+ * @param res
+ * @returns {AbortSignal}
+ */
+export function httpDisconnectSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.once('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Base context for adapters without a framework underneath (or with a thin one),
+ * response is kept in memory until adapter commits it with {@link payload}.
+ */
+export abstract class HttpBaseContext implements IHttpContext {
+  static defaultAbortMessage = 'Something went wrong.';
+  headers: HttpRequestHeaders;
+  cookies: HttpResponseCookies;
+  params = {};
+  willRender = false;
+  state: Record<any, any> = {};
+  response: IHttpResponse<any>;
+  aborted = false;
+  signal: AbortSignal;
+  protected _headers: Record<string, string | string[]> = {};
+  protected _query: HttpRequestQuery | null = null;
+  protected _url: URL | null = null;
+  protected _body: any = undefined;
+  protected _files: any = undefined;
+
+  constructor(requestHeaders: Record<string, string | string[] | undefined>, signal?: AbortSignal) {
+    this.signal = signal || new AbortController().signal;
+    this.response = { status: 404, headers: this._headers };
+    this.headers = new HttpRequestHeaders(
+      requestHeaders as Record<string, string | string[]>,
+      (k: string, v: string | string[]) => {
+        this.setHeader(k, v);
+      });
+    this.cookies = new HttpResponseCookies(
+      this.headers.get('cookie') || '',
+      (cookie: string) => {
+        this.appendHeader('set-cookie', cookie);
+      });
+  }
+
+  /**
+   * request method
+   */
+  abstract get method(): string
+
+  /**
+   * request path with query string, as received
+   */
+  protected abstract get rawUrl(): string
+
+  /**
+   * address of connected peer
+   */
+  protected abstract get remoteAddress(): string
+
+  /**
+   * connection is encrypted (tls)
+   */
+  protected abstract get encrypted(): boolean
+
+  /**
+   * host header as received
+   */
+  protected get requestHost(): string {
+    return this.headers.get('host') || this.headers.get(':authority') || '';
+  }
+
+  /**
+   * request as seen by trusted proxies, null when app trusts no proxy
+   */
+  protected get forwarded(): IHttpForwarded | null {
+    return httpForwarded(this, { address: this.remoteAddress, encrypted: this.encrypted, host: this.requestHost });
+  }
+
+  /**
+   * raw request body stream
+   */
+  abstract requestStream(): internal.Readable
+
+  get query() {
+    if (!this._query) {
+      const query: Record<string, string | string[]> = {};
+      for (const [key, value] of this.url.searchParams) {
+        const existing = query[key];
+        if (typeof existing == 'undefined') {
+          query[key] = value;
+        } else {
+          query[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+        }
+      }
+      this._query = new HttpRequestQuery(query);
+    }
+    return this._query;
+  }
+
+  get host() {
+    return this.forwarded?.host ?? this.requestHost;
+  }
+
+  get path() {
+    return this.url.pathname;
+  }
+
+  get url() {
+    if (!this._url) {
+      this._url = new URL(this.rawUrl, this.origin);
+    }
+    return this._url;
+  }
+
+  get href() {
+    return this.url.href;
+  }
+
+  get origin() {
+    return `${this.protocol}://${this.host || 'localhost'}`;
+  }
+
+  get protocol(): string {
+    return this.forwarded?.protocol ?? (this.encrypted ? 'https' : 'http');
+  }
+
+  get secure() {
+    return this.protocol == 'https';
+  }
+
+  get ip() {
+    return this.forwarded?.ip ?? this.remoteAddress;
+  }
+
+  get ips(): string[] {
+    return this.forwarded?.ips ?? [];
+  }
+
+  get body(): any {
+    return this._body;
+  }
+
+  set body(body: any) {
+    this._body = body;
+  }
+
+  get files(): any {
+    return this._files || {};
+  }
+
+  set files(files: any) {
+    this._files = files;
+  }
+
+  setHeader(k: string, v: string | string[]) {
+    this._headers[k.toLowerCase()] = v;
+  }
+
+  appendHeader(k: string, v: string) {
+    k = k.toLowerCase();
+    const existing = this._headers[k];
+    if (typeof existing == 'undefined') {
+      this._headers[k] = [v];
+      return;
+    }
+    this._headers[k] = Array.isArray(existing) ? [...existing, v] : [existing, v];
+  }
+
+  is(...types: string[]): string | null | false {
+    return isType(this.headers.get('content-type'), types);
+  }
+
+  accepts(...types: string[]) {
+    return acceptsType(this.headers.get('accept'), types);
+  }
+
+  getHeader(key: string) {
+    return this.headers.get(key);
+  }
+
+  json(data: any, status = 200) {
+    this.setHeader('content-type', 'application/json');
+    this.response.status = status;
+    this.response.body = data;
+  }
+
+  noContent() {
+    this.response.status = 204;
+    this.response.body = undefined;
+  }
+
+  created() {
+    this.response.status = 201;
+    this.response.body = undefined;
+  }
+
+  throw(status: number, message: string): never {
+    throw new HttpError(status, message);
+  }
+
+  abort(error: IHttpError): void;
+  abort(status: number, message?: string): void;
+  abort(...args: any): void {
+    this.aborted = true;
+    let status: number;
+    let message: string | undefined;
+    let data: any;
+    if (args.length == 1 && typeof args[0] != 'number') {
+      const err = args[0] as IHttpError
+      status = err.status;
+      message = err.expose ? err.message : HttpBaseContext.defaultAbortMessage;
+      data = err.data;
+    } else {
+      status = args[0];
+      message = args.length == 1 ? undefined : args[1] || HttpBaseContext.defaultAbortMessage;
+      data = args[2];
+    }
+    const format = this.value<HttpErrorFormat>(HTTP_KEY_ERROR_FORMAT);
+    this.response.status = status;
+    this.response.body = httpAbortBody(format, status, message, data, this.value(HTTP_KEY_REQ_ID));
+    if (format == 'problem') {
+      this.setHeader('content-type', HTTP_PROBLEM_CONTENT_TYPE);
+    }
+  }
+
+  reply(response: IHttpResponse) {
+    if (response.headers) {
+      for (const key in response.headers) {
+        this.setHeader(key, response.headers[key]);
+      }
+    }
+    this.response = { ...response, headers: this._headers };
+  }
+
+  stream(stream: internal.Readable, mime: string = 'application/octet-stream') {
+    this.setHeader('content-type', mime);
+    this.response.status = 200;
+    this.response.body = stream;
+  }
+
+  sse(opts: Partial<IHttpSseOpts> = {}) {
+    return new HttpSse(this, opts);
+  }
+
+  redirect(url: string, alt?: string) {
+    if (url == 'back') {
+      url = this.headers.get('referrer') || this.headers.get('referer') || alt || '/';
+    } else if ((process as any).env.APP_PREFIX) {
+      if (url[0] != '/') {
+        url = '/' + url;
+      }
+      url = (process as any).env.APP_PREFIX + url;
+    }
+    this.setHeader('location', encodeURI(url));
+    this.setHeader('content-type', 'text/plain; charset=utf-8');
+    if (this.response.status < 300 || this.response.status > 308) {
+      this.response.status = 302;
+    }
+    this.response.body = `Redirecting to ${url}.`;
+    this.response.redirect = { url, alt };
+  }
+
+  async view(template: string, data = {}, status = 200) {
+    const view = this.value<IViewEngine>(HTTP_KEY_VIEW_PROVIDER);
+    if (!view) {
+      throw new Error('view engine is not set.');
+    }
+    this.response.status = status;
+    this.response.body = await view.render(this, template, viewData(this, data));
+    this.willRender = true;
+  }
+
+  shouldRender() {
+    return this.willRender;
+  }
+
+  /**
+   * @deprecated use put() instead
+   * @param key
+   * @param value
+   * @returns
+   */
+  set<T = any>(key: any, value: T): T {
+    return this.state[key] = value
+  }
+
+  put<T = any>(key: any, value: T): T {
+    return this.state[key] = value
+  }
+
+  value<T = any>(key: any): T | undefined {
+    return this.state[key];
+  }
+
+  /**
+   * serialize response, same defaults as koa
+   * @returns {IHttpPayload}
+   */
+  payload(): IHttpPayload {
+    const headers = { ...this._headers };
+    const status = this.response.status;
+    let body = this.response.body;
+
+    if (EMPTY_STATUS.has(status)) {
+      delete headers['content-type'];
+      delete headers['content-length'];
+      delete headers['transfer-encoding'];
+      return { status, headers, body: null };
+    }
+
+    if (typeof body == 'undefined' || body === null) {
+      body = STATUS_CODES[status] || String(status);
+      headers['content-type'] = headers['content-type'] || 'text/plain; charset=utf-8';
+    }
+
+    if (body instanceof internal.Readable) {
+      headers['content-type'] = headers['content-type'] || 'application/octet-stream';
+      return { status, headers, body };
+    }
+
+    if (Buffer.isBuffer(body)) {
+      headers['content-type'] = headers['content-type'] || 'application/octet-stream';
+    } else if (typeof body == 'string') {
+      headers['content-type'] = headers['content-type'] || (/^\s*</.test(body) ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8');
+    } else {
+      body = JSON.stringify(body);
+      headers['content-type'] = headers['content-type'] || 'application/json; charset=utf-8';
+    }
+    headers['content-length'] = String(Buffer.byteLength(body));
+
+    return { status, headers, body };
+  }
+}
+
+/**
+ * write payload to node response
+ * @param res
+ * @param payload
+ * @param head skip body, for HEAD requests
+ */
+export function writeHttpResponse(res: ServerResponse, payload: IHttpPayload, head = false) {
+  if (res.headersSent || res.writableEnded) {
+    return;
+  }
+  res.statusCode = payload.status;
+  for (const key in payload.headers) {
+    res.setHeader(key, payload.headers[key]);
+  }
+  const body = payload.body;
+  if (head || body === null) {
+    if (body instanceof internal.Readable) {
+      body.destroy();
+    }
+    res.end();
+    return;
+  }
+  if (body instanceof internal.Readable) {
+    // pipeline destroys both streams on error, see issue notes in readme
+    internal.pipeline(body, res, () => { });
+    return;
+  }
+  res.end(body);
+}
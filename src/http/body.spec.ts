@@ -0,0 +1,133 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+
+import { HttpApp } from './app.js';
+import { HttpBodyParser } from './body.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+import { TestMiddleware } from '../testing/http/middleware.js';
+
+function createRouter() {
+  const router = new HttpRouter();
+  router.post('/echo', async ctx => {
+    ctx.json({ body: ctx.body ?? null });
+  });
+  return router;
+}
+
+function createFetchApp(opts = {}) {
+  const client = TestHttpApp({ logErrors: false });
+  client.app.use(HttpBodyParser.middleware(opts));
+  client.app.router(createRouter());
+  return client;
+}
+
+function post(body: any, headers: Record<string, string>) {
+  return new Request('http://localhost/echo', { method: 'POST', body, headers });
+}
+
+t.test('HttpBodyParser parses json, urlencoded and text bodies', async t => {
+  const client = createFetchApp();
+
+  let res = await client.fetch(post('{"name":"astad"}', { 'content-type': 'application/json' }));
+  t.same(await res.json(), { body: { name: 'astad' } });
+
+  res = await client.fetch(post('{"id":1}', { 'content-type': 'application/vnd.api+json' }));
+  t.same(await res.json(), { body: { id: 1 } });
+
+  res = await client.fetch(post('a=1&b=2&b=3', { 'content-type': 'application/x-www-form-urlencoded' }));
+  t.same(await res.json(), { body: { a: '1', b: ['2', '3'] } });
+
+  res = await client.fetch(post('hello', { 'content-type': 'text/plain; charset=utf-8' }));
+  t.same(await res.json(), { body: 'hello' });
+
+  res = await client.fetch(new Request('http://localhost/echo', { method: 'POST' }));
+  t.same(await res.json(), { body: null });
+});
+
+t.test('HttpBodyParser rejects invalid json', async t => {
+  const client = createFetchApp();
+
+  let res = await client.fetch(post('"string"', { 'content-type': 'application/json' }));
+  t.equal(res.status, 400);
+
+  res = await client.fetch(post('{"name":', { 'content-type': 'application/json' }));
+  t.equal(res.status, 400);
+
+  const loose = createFetchApp({ json: { strict: false } });
+  res = await loose.fetch(post('"string"', { 'content-type': 'application/json' }));
+  t.same(await res.json(), { body: 'string' });
+});
+
+t.test('HttpBodyParser responds 415 for unsupported content types', async t => {
+  const client = createFetchApp();
+
+  let res = await client.fetch(post('<a/>', { 'content-type': 'application/xml' }));
+  t.equal(res.status, 415);
+
+  res = await client.fetch(post('hello', { 'content-type': 'text/plain; charset=unknown' }));
+  t.equal(res.status, 415);
+
+  res = await client.fetch(post('--x--', { 'content-type': 'multipart/form-data; boundary=x' }));
+  t.same(await res.json(), { body: null }, 'multipart is skipped');
+
+  const disabled = createFetchApp({ text: false, rejectUnsupported: false });
+  res = await disabled.fetch(post('hello', { 'content-type': 'text/plain' }));
+  t.same(await res.json(), { body: null });
+});
+
+t.test('HttpBodyParser responds 413 when limit exceeds', async t => {
+  const client = createFetchApp({ json: { limit: 16 } });
+
+  let res = await client.fetch(post(JSON.stringify({ name: 'a'.repeat(32) }), { 'content-type': 'application/json' }));
+  t.equal(res.status, 413);
+
+  res = await client.fetch(post('{"name":"astad"}', { 'content-type': 'application/json' }));
+  t.equal(res.status, 200);
+});
+
+t.test('HttpBodyParser works with node adapter', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf, logErrors: false });
+  app.use(HttpBodyParser.middleware({ json: { limit: '1kb' } }));
+  app.router(createRouter());
+  const server = await app.start();
+  t.teardown(() => app.close());
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/echo`;
+
+  let res = await fetch(url, {
+    method: 'POST',
+    body: gzipSync('{"compressed":true}'),
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip' },
+  });
+  t.same(await res.json(), { body: { compressed: true } });
+
+  res = await fetch(url, {
+    method: 'POST',
+    body: JSON.stringify({ name: 'a'.repeat(2048) }),
+    headers: { 'content-type': 'application/json' },
+  });
+  t.equal(res.status, 413);
+
+  res = await fetch(url, {
+    method: 'POST',
+    body: 'not gzip',
+    headers: { 'content-type': 'application/json', 'content-encoding': 'gzip' },
+  });
+  t.equal(res.status, 400);
+});
+
+t.test('HttpBodyParser reads raw body of test context', async t => {
+  const tester = new TestMiddleware(HttpBodyParser.middleware());
+  const result = await tester.run({
+    path: '/echo',
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    rawBody: '{"test":true}',
+  });
+  t.equal(result.success, true);
+  t.same(result.ctx.body, { test: true });
+});
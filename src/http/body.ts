@@ -0,0 +1,241 @@
+import * as internal from 'node:stream';
+import * as zlib from 'node:zlib';
+
+import { IHttpContext } from './context.js';
+import { isType } from './negotiate.js';
+import { bytes } from '../support/file.js';
+
+export interface IHttpBodyTypeOpts {
+  /**
+   * max body size, bytes or size like `1mb`
+   */
+  limit: number | string
+  /**
+   * content types handled by parser
+   */
+  types: string[]
+}
+
+export interface IHttpJsonBodyOpts extends IHttpBodyTypeOpts {
+  /**
+   * only accept objects and arrays
+   */
+  strict: boolean
+}
+
+export interface HttpBodyParserOpts {
+  json: Partial<IHttpJsonBodyOpts> | false
+  urlencoded: Partial<IHttpBodyTypeOpts> | false
+  text: Partial<IHttpBodyTypeOpts> | false
+  /**
+   * content types left to other middlewares, e.g. multipart uploads
+   */
+  skip: string[]
+  /**
+   * respond 415 to bodies which are neither parsed nor skipped
+   */
+  rejectUnsupported: boolean
+}
+
+const defaultOptions = {
+  json: { limit: '1mb', strict: true, types: ['json', '+json'] },
+  urlencoded: { limit: '56kb', types: ['urlencoded'] },
+  text: { limit: '1mb', types: ['text'] },
+  skip: ['multipart'],
+  rejectUnsupported: true,
+};
+
+/**
+ * read request body into buffer, content encoding is decoded and size limit applies to decoded body
+ * @param ctx
+ * @param limit in bytes
+ * @returns {Promise<Buffer>}
+ */
+export function readHttpBody(ctx: IHttpContext, limit: number): Promise<Buffer> {
+  const length = parseInt(ctx.headers.get('content-length') || '', 10);
+  const raw = ctx.requestStream();
+  if (!isNaN(length) && length > limit) {
+    // discard body, connection remains usable for response
+    raw.resume();
+    ctx.throw(413, 'Request body too large');
+  }
+  const stream = decodeContent(ctx, raw);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > limit) {
+        cleanup();
+        raw.resume();
+        try {
+          ctx.throw(413, 'Request body too large');
+        } catch (err) {
+          reject(err);
+        }
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+    const onError = (err: any) => {
+      cleanup();
+      if (stream !== raw && typeof err.code == 'string' && err.code.startsWith('Z_')) {
+        try {
+          ctx.throw(400, 'Invalid content encoding');
+        } catch (httpErr) {
+          err = httpErr;
+        }
+      }
+      reject(err);
+    };
+    const cleanup = () => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', onError);
+      if (stream !== raw) {
+        raw.unpipe();
+      }
+    };
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+  });
+}
+
+function decodeContent(ctx: IHttpContext, raw: internal.Readable): internal.Readable {
+  const encoding = (ctx.headers.get('content-encoding') || 'identity').toLowerCase();
+  switch (encoding) {
+    case 'identity':
+      return raw;
+    case 'gzip':
+    case 'x-gzip':
+      return raw.pipe(zlib.createGunzip());
+    case 'deflate':
+      return raw.pipe(zlib.createInflate());
+    case 'br':
+      return raw.pipe(zlib.createBrotliDecompress());
+  }
+  raw.resume();
+  return ctx.throw(415, `Unsupported content encoding "${encoding}"`);
+}
+
+/**
+ * decode buffer with charset of content type, defaults to utf-8
+ * @param ctx
+ * @param buf
+ * @returns {string}
+ */
+export function decodeHttpBody(ctx: IHttpContext, buf: Buffer): string {
+  const match = /;\s*charset=["']?([^"';\s]+)/i.exec(ctx.headers.get('content-type') || '');
+  const charset = match ? match[1] : 'utf-8';
+  let decoder: InstanceType<typeof TextDecoder>;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch (err) {
+    return ctx.throw(415, `Unsupported charset "${charset}"`);
+  }
+  return decoder.decode(buf);
+}
+
+/**
+ * parse json, urlencoded and text request bodies into ctx.body
+ */
+export class HttpBodyParser {
+  opts: HttpBodyParserOpts;
+
+  constructor(opts: Partial<HttpBodyParserOpts> = {}) {
+    this.opts = {
+      ...defaultOptions,
+      ...opts,
+      json: opts.json === false ? false : { ...defaultOptions.json, ...(opts.json || {}) },
+      urlencoded: opts.urlencoded === false ? false : { ...defaultOptions.urlencoded, ...(opts.urlencoded || {}) },
+      text: opts.text === false ? false : { ...defaultOptions.text, ...(opts.text || {}) },
+    };
+  }
+
+  static middleware(opts: Partial<HttpBodyParserOpts> = {}) {
+    const parser = new HttpBodyParser(opts);
+    return parser.handle.bind(parser);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    if (typeof ctx.body == 'undefined' && this.hasBody(ctx)) {
+      ctx.body = await this.parse(ctx);
+    }
+    return await next();
+  }
+
+  protected hasBody(ctx: IHttpContext) {
+    if (!ctx.headers.get('content-type')) {
+      return false;
+    }
+    return ctx.headers.get('content-length') !== '0';
+  }
+
+  protected async parse(ctx: IHttpContext) {
+    const contentType = ctx.headers.get('content-type') as string;
+    const { json, urlencoded, text } = this.opts;
+
+    if (json && isType(contentType, json.types as string[])) {
+      return this.json(ctx, json as IHttpJsonBodyOpts);
+    }
+    if (urlencoded && isType(contentType, urlencoded.types as string[])) {
+      const body = await this.read(ctx, urlencoded as IHttpBodyTypeOpts);
+      return this.urlencoded(body);
+    }
+    if (text && isType(contentType, text.types as string[])) {
+      return this.read(ctx, text as IHttpBodyTypeOpts);
+    }
+    if (this.opts.rejectUnsupported && !isType(contentType, this.opts.skip)) {
+      ctx.throw(415, `Unsupported content type "${contentType}"`);
+    }
+    return undefined;
+  }
+
+  protected async read(ctx: IHttpContext, opts: IHttpBodyTypeOpts) {
+    const buf = await readHttpBody(ctx, bytes(opts.limit));
+    return decodeHttpBody(ctx, buf);
+  }
+
+  protected async json(ctx: IHttpContext, opts: IHttpJsonBodyOpts) {
+    const body = (await this.read(ctx, opts)).trim();
+    if (!body) {
+      return {};
+    }
+    // strict mode, same as koa-body and express json parser
+    if (opts.strict && body[0] != '{' && body[0] != '[') {
+      ctx.throw(400, 'Invalid JSON, only objects and arrays are allowed');
+    }
+    try {
+      return JSON.parse(body);
+    } catch (err) {
+      return ctx.throw(400, 'Invalid JSON');
+    }
+  }
+
+  protected urlencoded(body: string) {
+    const data: Record<string, string | string[]> = {};
+    for (const [key, value] of new URLSearchParams(body)) {
+      const current = data[key];
+      if (typeof current == 'undefined') {
+        data[key] = value;
+      } else if (Array.isArray(current)) {
+        current.push(value);
+      } else {
+        data[key] = [current, value];
+      }
+    }
+    return data;
+  }
+}
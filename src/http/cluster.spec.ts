@@ -0,0 +1,125 @@
+import * as http from 'node:http';
+import * as net from 'node:net';
+import { setTimeout } from 'node:timers/promises';
+import { fileURLToPath } from 'node:url';
+
+import { HttpApp } from './app.js';
+import { HttpCluster, isHttpClusterWorker } from './cluster.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+
+// workers run this file as well, they only serve app
+if (isHttpClusterWorker()) {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: process.env['TEST_CLUSTER_PORT'] as string }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  const router = new HttpRouter();
+  router.get('/pid', async ctx => {
+    ctx.json({ pid: process.pid, slot: process.env['ASTAD_WORKER_SLOT'] });
+  });
+  router.get('/crash', async ctx => {
+    ctx.json({ pid: process.pid });
+    setImmediate(() => process.exit(1));
+  });
+  app.router(router);
+  await app.cluster({ signals: false });
+} else {
+  const { default: t } = await import('tap');
+  // each worker boots app from source
+  t.setTimeout(180000);
+
+  const port = await new Promise<number>((resolve, reject) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+    server.on('error', reject);
+  });
+  process.env['TEST_CLUSTER_PORT'] = String(port);
+
+  function get(path: string) {
+    return new Promise<{ pid: number, slot: string }>((resolve, reject) => {
+      const req = http.get({ host: '127.0.0.1', port, path, agent: false, timeout: 5000 }, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve(JSON.parse(body)));
+      });
+      req.on('timeout', () => req.destroy(new Error(`GET ${path} timed out.`)));
+      req.on('error', reject);
+    });
+  }
+
+  function once<T extends any[]>(cluster: HttpCluster, event: string) {
+    return new Promise<T>(resolve => cluster.once(event, (...args: any[]) => resolve(args as T)));
+  }
+
+  const cluster = new HttpCluster({
+    workers: 2,
+    restartDelay: 50,
+    shutdownTimeout: 5000,
+    readyTimeout: 60000,
+    signals: false,
+    reloadSignal: false,
+    settings: { exec: fileURLToPath(import.meta.url), silent: true },
+  });
+  t.teardown(() => cluster.shutdown());
+
+  t.test('start forks workers and waits until ready', async t => {
+    const readies: number[] = [];
+    cluster.on('ready', worker => readies.push(worker.process.pid));
+    await cluster.start();
+    t.equal(cluster.pids().length, 2);
+    t.same(readies.sort(), cluster.pids().sort(), 'resolved once every worker is ready');
+
+    const res = await get('/pid');
+    t.ok(cluster.pids().includes(res.pid), 'request is served by worker');
+  });
+
+  t.test('crashed worker is restarted in its slot', async t => {
+    const restart = once<[number, number]>(cluster, 'restart');
+    const { pid } = await get('/crash');
+    const [slot, delay] = await restart;
+    t.equal(delay, 50, 'first crash waits restartDelay');
+    t.notOk(cluster.pids().includes(pid));
+
+    const [worker] = await once<[any]>(cluster, 'ready');
+    t.not(worker.process.pid, pid);
+    t.equal(cluster.pids().length, 2);
+    const slots = new Set<string>();
+    while (slots.size < 2) {
+      slots.add((await get('/pid')).slot);
+    }
+    t.ok(slots.has(String(slot)), 'replacement takes over slot');
+  });
+
+  t.test('reload replaces workers without dropping requests', async t => {
+    const before = cluster.pids();
+    let reloading = true;
+    let served = 0;
+    const load = (async () => {
+      while (reloading) {
+        await get('/pid');
+        served++;
+        await setTimeout(20);
+      }
+    })();
+    await cluster.reload();
+    reloading = false;
+    await load;
+    t.ok(served > 0);
+    t.equal(cluster.pids().length, 2);
+    t.same(cluster.pids().filter(pid => before.includes(pid)), [], 'all workers replaced');
+  });
+
+  t.test('shutdown stops workers', async t => {
+    const pids = cluster.pids();
+    const exits: number[] = [];
+    cluster.on('exit', (worker, code) => exits.push(code));
+    await cluster.shutdown();
+    t.same(exits, [0, 0], 'workers drain and exit cleanly');
+    t.same(cluster.pids(), []);
+    for (const pid of pids) {
+      t.throws(() => process.kill(pid, 0), 'worker process is gone');
+    }
+  });
+}
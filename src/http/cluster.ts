@@ -0,0 +1,323 @@
+import * as nodeCluster from 'node:cluster';
+import { EventEmitter } from 'node:events';
+import * as os from 'node:os';
+
+export interface IHttpClusterOpts {
+  /**
+   * number of workers, defaults to available parallelism
+   */
+  workers: number
+  /**
+   * ms before first restart of crashed worker, doubled for each consecutive crash
+   */
+  restartDelay: number
+  maxRestartDelay: number
+  /**
+   * ms of uptime after which crash is no longer consecutive, backoff starts over
+   */
+  stableAfter: number
+  /**
+   * ms to wait for worker to drain before it is killed
+   */
+  shutdownTimeout: number
+  /**
+   * ms to wait for worker to become ready, on start and reload
+   */
+  readyTimeout: number
+  /**
+   * signals forwarded to workers for graceful shutdown, false to not handle them
+   */
+  signals: NodeJS.Signals[] | false
+  /**
+   * signal triggering rolling reload
+   */
+  reloadSignal: NodeJS.Signals | false
+  /**
+   * passed to `cluster.setupPrimary()`, e.g. `exec` of worker script
+   */
+  settings?: nodeCluster.ClusterSettings
+}
+
+/**
+ * app run by worker
+ */
+export interface IHttpClusterApp {
+  start(): Promise<any>
+  close(): Promise<void>
+  getServers(): Array<{ address(): any }>
+}
+
+interface IHttpClusterWorker {
+  worker: nodeCluster.Worker
+  slot: number
+  startedAt: number
+  failures: number
+  ready: boolean
+  stopping: boolean
+}
+
+const MESSAGE_KEY = 'astad:cluster';
+
+// module has default export only, commonjs build gets module itself
+const cluster: nodeCluster.Cluster = (nodeCluster as any).default ?? nodeCluster;
+
+const defaultOptions = {
+  restartDelay: 1000,
+  maxRestartDelay: 30000,
+  stableAfter: 10000,
+  shutdownTimeout: 15000,
+  readyTimeout: 30000,
+  signals: ['SIGTERM', 'SIGINT'] as NodeJS.Signals[],
+  reloadSignal: 'SIGHUP' as const,
+};
+
+/**
+ * cpu count fallback, `os.availableParallelism()` is missing before node 18.14
+ * @returns {number}
+ */
+function availableParallelism() {
+  return typeof os.availableParallelism == 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+/**
+ * Supervises workers of primary process, created by `httpApp.cluster()`. Crashed workers are
+ * restarted with backoff, shutdown signals are forwarded to workers to drain, reload replaces
+ * workers one by one, old worker is stopped once its replacement is ready.
+ *
+ * Emits `fork` (worker), `ready` (worker, addresses), `exit` (worker, code, signal),
+ * `restart` (slot, delay) and `reload`.
+ */
+export class HttpCluster extends EventEmitter {
+  opts: IHttpClusterOpts;
+  protected workers = new Map<number, IHttpClusterWorker>();
+  protected restarts = new Set<NodeJS.Timeout>();
+  protected signalListeners: Array<[NodeJS.Signals, () => void]> = [];
+  protected reloading: Promise<void> | null = null;
+  protected closePromise: Promise<void> | null = null;
+
+  constructor(opts: Partial<IHttpClusterOpts> = {}) {
+    super();
+    this.opts = { workers: availableParallelism(), ...defaultOptions, ...opts };
+    this.onExit = this.onExit.bind(this);
+  }
+
+  get closing() {
+    return this.closePromise !== null;
+  }
+
+  /**
+   * pids of running workers
+   * @returns {number[]}
+   */
+  pids() {
+    return [...this.workers.values()].map(state => state.worker.process.pid as number);
+  }
+
+  /**
+   * fork workers, resolves once every worker is ready
+   */
+  async start() {
+    if (this.opts.settings) {
+      cluster.setupPrimary(this.opts.settings);
+    }
+    cluster.on('exit', this.onExit);
+    this.handleSignals();
+    const forked: IHttpClusterWorker[] = [];
+    for (let slot = 0; slot < this.opts.workers; slot++) {
+      forked.push(this.fork(slot, 0));
+    }
+    await Promise.all(forked.map(state => this.waitReady(state)));
+  }
+
+  /**
+   * rolling reload, replaces workers one at a time
+   */
+  reload(): Promise<void> {
+    if (this.reloading) {
+      return this.reloading;
+    }
+    this.reloading = (async () => {
+      for (const old of [...this.workers.values()]) {
+        if (this.closing) {
+          return;
+        }
+        if (!this.workers.has(old.worker.id)) {
+          // crashed meanwhile, already replaced
+          continue;
+        }
+        const next = this.fork(old.slot, 0);
+        try {
+          await this.waitReady(next);
+        } catch (err) {
+          // keep old worker serving, replacement is broken
+          next.stopping = true;
+          next.worker.process.kill('SIGKILL');
+          throw err;
+        }
+        await this.stop(old);
+      }
+      this.emit('reload');
+    })().finally(() => this.reloading = null);
+    return this.reloading;
+  }
+
+  /**
+   * stop restarting, ask workers to drain and wait until they exit
+   * @param signal forwarded to workers
+   */
+  shutdown(signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+    if (this.closePromise) {
+      return this.closePromise;
+    }
+    this.closePromise = (async () => {
+      this.restarts.forEach(timer => clearTimeout(timer));
+      this.restarts.clear();
+      this.signalListeners.forEach(([signal, listener]) => process.removeListener(signal, listener));
+      await Promise.all([...this.workers.values()].map(state => this.stop(state, signal)));
+      cluster.removeListener('exit', this.onExit);
+    })();
+    return this.closePromise;
+  }
+
+  protected fork(slot: number, failures: number): IHttpClusterWorker {
+    const worker = cluster.fork({ ASTAD_WORKER_SLOT: String(slot) });
+    const state: IHttpClusterWorker = { worker, slot, failures, startedAt: Date.now(), ready: false, stopping: false };
+    this.workers.set(worker.id, state);
+    worker.on('message', (message: any) => {
+      if (message?.[MESSAGE_KEY] == 'ready') {
+        state.ready = true;
+        this.emit('ready', worker, message.addresses);
+      }
+    });
+    // ipc errors of exiting workers are reported by exit
+    worker.on('error', () => { });
+    this.emit('fork', worker);
+    return state;
+  }
+
+  protected waitReady(state: IHttpClusterWorker) {
+    return new Promise<void>((resolve, reject) => {
+      if (state.ready) {
+        resolve();
+        return;
+      }
+      const done = (err?: Error) => {
+        clearTimeout(timer);
+        this.removeListener('ready', onReady);
+        state.worker.removeListener('exit', onExit);
+        err ? reject(err) : resolve();
+      };
+      const onReady = (worker: nodeCluster.Worker) => worker === state.worker && done();
+      const onExit = () => done(new Error(`Worker ${state.worker.process.pid} exited before it was ready.`));
+      const timer = setTimeout(() => done(new Error(`Worker ${state.worker.process.pid} not ready after ${this.opts.readyTimeout}ms.`)), this.opts.readyTimeout);
+      this.on('ready', onReady);
+      state.worker.once('exit', onExit);
+    });
+  }
+
+  protected stop(state: IHttpClusterWorker, signal: NodeJS.Signals = 'SIGTERM') {
+    state.stopping = true;
+    return new Promise<void>(resolve => {
+      if (state.worker.isDead()) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(() => {
+        console.warn(`[HttpCluster] worker ${state.worker.process.pid} still running after ${this.opts.shutdownTimeout}ms, killing it.`);
+        state.worker.process.kill('SIGKILL');
+      }, this.opts.shutdownTimeout);
+      state.worker.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      try {
+        state.worker.send({ [MESSAGE_KEY]: 'shutdown', signal });
+      } catch {
+        state.worker.process.kill(signal);
+      }
+    });
+  }
+
+  protected onExit(worker: nodeCluster.Worker, code: number, signal: string) {
+    const state = this.workers.get(worker.id);
+    if (!state) {
+      return;
+    }
+    this.workers.delete(worker.id);
+    this.emit('exit', worker, code, signal);
+    if (state.stopping || this.closing) {
+      return;
+    }
+    const failures = Date.now() - state.startedAt >= this.opts.stableAfter ? 1 : state.failures + 1;
+    const delay = Math.min(this.opts.restartDelay * 2 ** (failures - 1), this.opts.maxRestartDelay);
+    console.error(`[HttpCluster] worker ${worker.process.pid} exited with ${signal || code}, restarting in ${delay}ms.`);
+    const timer = setTimeout(() => {
+      this.restarts.delete(timer);
+      this.fork(state.slot, failures);
+    }, delay);
+    this.restarts.add(timer);
+    this.emit('restart', state.slot, delay);
+  }
+
+  protected handleSignals() {
+    for (const signal of this.opts.signals || []) {
+      const listener = () => {
+        console.info(`Received ${signal}, shutting down workers.`);
+        this.shutdown(signal).then(() => process.exit(0));
+      };
+      process.once(signal, listener);
+      this.signalListeners.push([signal, listener]);
+    }
+    if (this.opts.reloadSignal) {
+      const signal = this.opts.reloadSignal;
+      const listener = () => {
+        console.info(`Received ${signal}, reloading workers.`);
+        this.reload().catch(err => console.error(err));
+      };
+      process.on(signal, listener);
+      this.signalListeners.push([signal, listener]);
+    }
+  }
+}
+
+/**
+ * true in processes forked by `HttpCluster`
+ * @returns {boolean}
+ */
+export function isHttpClusterWorker() {
+  return cluster.isWorker;
+}
+
+/**
+ * run app in worker, app is closed when primary asks worker to shut down
+ * @param app
+ * @param signals handled by primary, ignored by worker
+ */
+export async function runHttpClusterWorker(app: IHttpClusterApp, signals: NodeJS.Signals[] | false = defaultOptions.signals) {
+  // terminal signals reach whole process group, primary coordinates shutdown
+  for (const signal of signals || []) {
+    process.on(signal, () => { });
+  }
+  process.on('message', (message: any) => {
+    if (message?.[MESSAGE_KEY] != 'shutdown') {
+      return;
+    }
+    // no forced exit, connections already handed over by primary would be cut,
+    // process exits once ipc is disconnected and nothing is left to do
+    app.close().then(
+      () => cluster.worker?.disconnect(),
+      err => {
+        console.error(err);
+        process.exitCode = 1;
+        cluster.worker?.disconnect();
+      },
+    );
+  });
+  try {
+    await app.start();
+  } catch (err) {
+    console.error(err);
+    process.exit(1);
+  }
+  process.send?.({ [MESSAGE_KEY]: 'ready', addresses: app.getServers().map(server => server.address()) });
+}
@@ -0,0 +1,120 @@
+import t from 'tap';
+import { Readable } from 'node:stream';
+import { brotliDecompressSync, gunzipSync, inflateSync } from 'node:zlib';
+
+import { HttpCompression } from './compress.js';
+import { acceptsEncoding } from './negotiate.js';
+import { HttpRouter } from './router/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+import { TestMiddleware } from '../testing/http/middleware.js';
+
+const items = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `item ${i}` }));
+
+const client = TestHttpApp();
+const app = client.app;
+app.use(HttpCompression.middleware());
+const router = new HttpRouter();
+router.get('/items', async ctx => {
+  ctx.json(items);
+});
+router.get('/small', async ctx => {
+  ctx.json({ id: 1 });
+});
+router.get('/stream', async ctx => {
+  ctx.stream(Readable.from(['a'.repeat(2048), 'b'.repeat(2048)]), 'text/plain');
+});
+router.get('/encoded', async ctx => {
+  ctx.reply({ status: 200, body: 'x'.repeat(2048), headers: { 'content-encoding': 'identity', 'content-type': 'text/plain' } });
+});
+router.get('/image', async ctx => {
+  ctx.reply({ status: 200, body: Buffer.alloc(2048), headers: { 'content-type': 'image/png', etag: '"abc"' } });
+});
+router.get('/etag', async ctx => {
+  ctx.reply({ status: 200, body: 'x'.repeat(2048), headers: { 'content-type': 'text/plain', etag: '"abc"', vary: 'Origin' } });
+});
+app.router(router);
+
+function get(path: string, encoding?: string, method = 'GET') {
+  return client.fetch(new Request(`http://localhost${path}`, {
+    method,
+    headers: encoding ? { 'accept-encoding': encoding } : {},
+  }));
+}
+
+async function raw(res: Response) {
+  return Buffer.from(await res.arrayBuffer());
+}
+
+t.test('HttpCompression negotiates encoding for json bodies', async t => {
+  let res = await get('/items', 'gzip, deflate, br');
+  t.equal(res.headers.get('content-encoding'), 'br');
+  t.equal(res.headers.get('vary'), 'Accept-Encoding');
+  t.match(res.headers.get('content-type'), /application\/json/);
+  t.same(JSON.parse(brotliDecompressSync(await raw(res)).toString()), items);
+
+  res = await get('/items', 'gzip;q=1, br;q=0.5');
+  t.equal(res.headers.get('content-encoding'), 'gzip');
+  t.same(JSON.parse(gunzipSync(await raw(res)).toString()), items);
+
+  res = await get('/items', 'deflate');
+  t.equal(res.headers.get('content-encoding'), 'deflate');
+  t.same(JSON.parse(inflateSync(await raw(res)).toString()), items);
+
+  res = await get('/items');
+  t.equal(res.headers.get('content-encoding'), null);
+  t.equal(res.headers.get('vary'), 'Accept-Encoding');
+  t.same(await res.json(), items);
+});
+
+t.test('HttpCompression compresses streams', async t => {
+  const res = await get('/stream', 'gzip');
+  t.equal(res.headers.get('content-encoding'), 'gzip');
+  t.equal(res.headers.get('content-type'), 'text/plain');
+  t.equal(gunzipSync(await raw(res)).toString(), 'a'.repeat(2048) + 'b'.repeat(2048));
+});
+
+t.test('HttpCompression skips small, encoded and incompressible bodies', async t => {
+  let res = await get('/small', 'gzip');
+  t.equal(res.headers.get('content-encoding'), null);
+  t.equal(res.headers.get('vary'), 'Accept-Encoding');
+  t.same(await res.json(), { id: 1 });
+
+  res = await get('/encoded', 'gzip');
+  t.equal(res.headers.get('content-encoding'), 'identity');
+  t.equal(res.headers.get('vary'), null);
+
+  res = await get('/image', 'gzip');
+  t.equal(res.headers.get('content-encoding'), null);
+  t.equal(res.headers.get('etag'), '"abc"');
+  t.equal((await raw(res)).length, 2048);
+
+  res = await get('/items', 'gzip', 'HEAD');
+  t.equal(res.headers.get('content-encoding'), null);
+});
+
+t.test('HttpCompression keeps vary and weakens etag', async t => {
+  const res = await get('/etag', 'gzip');
+  t.equal(res.headers.get('content-encoding'), 'gzip');
+  t.equal(res.headers.get('vary'), 'Origin, Accept-Encoding');
+  t.equal(res.headers.get('etag'), 'W/"abc"');
+});
+
+t.test('HttpCompression works with test context', async t => {
+  const compression = HttpCompression.middleware({ threshold: 0 });
+  const tester = new TestMiddleware(async ctx => {
+    await compression(ctx, async () => {
+      ctx.json({ test: true });
+    });
+  });
+  const result = await tester.run({ path: '/', headers: { 'accept-encoding': 'gzip' } });
+  t.equal(result.getHeader('content-encoding'), 'gzip');
+  t.same(JSON.parse(gunzipSync(result.response.body).toString()), { test: true });
+});
+
+t.test('acceptsEncoding() honors quality and wildcard', async t => {
+  t.equal(acceptsEncoding('gzip, br', ['br', 'gzip']), 'br');
+  t.equal(acceptsEncoding('*', ['br', 'gzip']), 'br');
+  t.equal(acceptsEncoding('*, br;q=0', ['br', 'gzip']), 'gzip');
+  t.equal(acceptsEncoding('identity', ['br', 'gzip']), false);
+  t.equal(acceptsEncoding(undefined, ['br', 'gzip']), false);
+});
@@ -0,0 +1,177 @@
+import * as internal from 'node:stream';
+import * as zlib from 'node:zlib';
+import { promisify } from 'node:util';
+
+import { IHttpContext } from './context.js';
+import { acceptsEncoding, isType } from './negotiate.js';
+import { bytes } from '../support/file.js';
+
+export type HttpCompressionEncoding = 'br' | 'gzip' | 'deflate';
+
+export interface HttpCompressionOpts {
+  /**
+   * supported encodings in order of preference
+   */
+  encodings: HttpCompressionEncoding[]
+  /**
+   * min body size to compress, bytes or size like `1kb`
+   */
+  threshold: number | string
+  /**
+   * compressible content types
+   */
+  types: string[]
+  /**
+   * zlib compression level for gzip and deflate
+   */
+  level: number
+  /**
+   * brotli quality, 0-11
+   */
+  quality: number
+}
+
+const defaultOptions = {
+  encodings: ['br', 'gzip', 'deflate'] as HttpCompressionEncoding[],
+  threshold: '1kb',
+  types: [
+    'text/*',
+    'json',
+    'application/javascript',
+    'application/xml',
+    '+xml',
+    'image/svg+xml',
+    'application/wasm',
+  ],
+  level: zlib.constants.Z_DEFAULT_COMPRESSION,
+  quality: 4,
+};
+
+const EMPTY_STATUS = new Set([204, 205, 206, 304]);
+
+const compressors = {
+  br: promisify(zlib.brotliCompress),
+  gzip: promisify(zlib.gzip),
+  deflate: promisify(zlib.deflate),
+};
+
+/**
+ * Compresses responses set with json(), view(), stream() or reply() for clients accepting
+ * br, gzip or deflate. Small bodies, bodies with content-encoding and incompressible types are skipped.
+ */
+export class HttpCompression {
+  opts: HttpCompressionOpts;
+
+  constructor(opts: Partial<HttpCompressionOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+  }
+
+  static middleware(opts: Partial<HttpCompressionOpts> = {}) {
+    const compression = new HttpCompression(opts);
+    return compression.handle.bind(compression);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    await next();
+
+    const { status } = ctx.response;
+    let body = ctx.response.body;
+    const headers = ctx.response.headers || {};
+    if (typeof body == 'undefined' || body === null || EMPTY_STATUS.has(status) || headers['content-encoding']) {
+      return;
+    }
+
+    const type = this.contentType(body, headers['content-type']);
+    if (!isType(type, this.opts.types) || /\bno-transform\b/.test(String(headers['cache-control'] || ''))) {
+      return;
+    }
+    // response depends on accept-encoding, even when sent uncompressed
+    this.vary(ctx, headers);
+
+    if (ctx.method == 'HEAD') {
+      return;
+    }
+    const encoding = acceptsEncoding(ctx.headers.get('accept-encoding'), this.opts.encodings) as HttpCompressionEncoding | false;
+    if (!encoding) {
+      return;
+    }
+
+    const threshold = bytes(this.opts.threshold);
+    if (body instanceof internal.Readable) {
+      const length = parseInt(String(headers['content-length'] || ''), 10);
+      if (!isNaN(length) && length < threshold) {
+        return;
+      }
+      // errors of source destroy compressed stream, adapter then drops connection
+      body = internal.pipeline(body, this.createStream(encoding), () => { });
+    } else {
+      const raw = typeof body == 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+      if (Buffer.byteLength(raw) < threshold) {
+        return;
+      }
+      body = await compressors[encoding](raw, this.zlibOptions(encoding));
+    }
+
+    // length of compressed body differs, adapters set it for buffers
+    delete headers['content-length'];
+    const replyHeaders: Record<string, string | string[]> = {
+      'content-type': type,
+      'content-encoding': encoding,
+    };
+    const etag = headers['etag'];
+    if (typeof etag == 'string' && !etag.startsWith('W/')) {
+      // compressed representation is not byte identical
+      replyHeaders['etag'] = `W/${etag}`;
+    }
+    ctx.reply({ status, body, headers: replyHeaders });
+  }
+
+  protected contentType(body: any, contentType: string | string[] | undefined) {
+    if (typeof contentType == 'string') {
+      return contentType;
+    }
+    if (typeof body == 'string') {
+      return /^\s*</.test(body) ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8';
+    }
+    if (Buffer.isBuffer(body) || body instanceof internal.Readable) {
+      return 'application/octet-stream';
+    }
+    return 'application/json; charset=utf-8';
+  }
+
+  protected vary(ctx: IHttpContext, headers: Record<string, string | string[]>) {
+    const vary = String(headers['vary'] || '');
+    if (vary == '*') {
+      return;
+    }
+    const fields = vary.split(',').map(field => field.trim()).filter(Boolean);
+    if (!fields.some(field => field.toLowerCase() == 'accept-encoding')) {
+      fields.push('Accept-Encoding');
+      ctx.headers.set('vary', fields.join(', '));
+    }
+  }
+
+  protected zlibOptions(encoding: HttpCompressionEncoding) {
+    if (encoding == 'br') {
+      return { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: this.opts.quality } };
+    }
+    return { level: this.opts.level };
+  }
+
+  protected createStream(encoding: HttpCompressionEncoding): internal.Transform {
+    switch (encoding) {
+      case 'br':
+        return zlib.createBrotliCompress(this.zlibOptions(encoding));
+      case 'gzip':
+        return zlib.createGzip(this.zlibOptions(encoding));
+      case 'deflate':
+        return zlib.createDeflate(this.zlibOptions(encoding));
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import t from 'tap';
+import { Readable } from 'node:stream';
+
+import { HttpCompression } from './compress.js';
+import { HttpConditionalGet, HttpConditionalGetOpts, setLastModified } from './conditional.js';
+import { HttpRouter } from './router/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+import { TestMiddleware } from '../testing/http/middleware.js';
+
+const modified = new Date('2024-05-01T10:00:00Z');
+
+function createApp(opts: Partial<HttpConditionalGetOpts> = {}) {
+  const client = TestHttpApp();
+  const app = client.app;
+  app.use(HttpCompression.middleware({ threshold: 0 }));
+  app.use(HttpConditionalGet.middleware(opts));
+  const router = new HttpRouter();
+  router.get('/items', async ctx => {
+    ctx.json([{ id: 1 }, { id: 2 }]);
+  });
+  router.get('/text', async ctx => {
+    ctx.reply({ status: 200, body: 'hello', headers: { 'content-type': 'text/plain' } });
+  });
+  router.get('/modified', async ctx => {
+    setLastModified(ctx, modified);
+    ctx.reply({ status: 200, body: Readable.from(['report']), headers: { 'content-type': 'text/plain' } });
+  });
+  router.get('/missing', async ctx => {
+    ctx.abort(404);
+  });
+  router.post('/items', async ctx => {
+    ctx.json({ id: 3 });
+  });
+  app.router(router);
+  return client;
+}
+
+function get(client: ReturnType<typeof TestHttpApp>, path: string, headers: Record<string, string> = {}, method = 'GET') {
+  return client.fetch(new Request(`http://localhost${path}`, { method, headers }));
+}
+
+t.test('HttpConditionalGet adds etag and responds 304 on If-None-Match', async t => {
+  const client = createApp();
+  let res = await get(client, '/items');
+  const etag = res.headers.get('etag') as string;
+  t.match(etag, /^W\/"13-[\w+/]+"$/);
+  t.same(await res.json(), [{ id: 1 }, { id: 2 }]);
+
+  res = await get(client, '/items', { 'if-none-match': etag });
+  t.equal(res.status, 304);
+  t.equal(res.headers.get('etag'), etag);
+  t.equal(res.headers.get('content-type'), null);
+  t.equal(await res.text(), '');
+
+  res = await get(client, '/items', { 'if-none-match': `"other", ${etag.slice(2)}` });
+  t.equal(res.status, 304, 'weak comparison of list');
+
+  res = await get(client, '/items', { 'if-none-match': '*' });
+  t.equal(res.status, 304);
+
+  res = await get(client, '/items', { 'if-none-match': '"other"' });
+  t.equal(res.status, 200);
+
+  res = await get(client, '/items', { 'if-none-match': etag, 'cache-control': 'no-cache' });
+  t.equal(res.status, 200);
+});
+
+t.test('HttpConditionalGet matches compressed responses', async t => {
+  const client = createApp({ weak: false });
+  let res = await get(client, '/text');
+  const etag = res.headers.get('etag') as string;
+  t.match(etag, /^"5-[\w+/]+"$/);
+
+  res = await get(client, '/text', { 'accept-encoding': 'gzip' });
+  t.equal(res.headers.get('content-encoding'), 'gzip');
+  t.equal(res.headers.get('etag'), `W/${etag}`);
+
+  res = await get(client, '/text', { 'accept-encoding': 'gzip', 'if-none-match': `W/${etag}` });
+  t.equal(res.status, 304);
+  t.equal(res.headers.get('content-encoding'), null);
+});
+
+t.test('HttpConditionalGet uses Last-Modified set by handler', async t => {
+  const client = createApp();
+  let res = await get(client, '/modified');
+  t.equal(res.headers.get('last-modified'), 'Wed, 01 May 2024 10:00:00 GMT');
+  t.equal(res.headers.get('etag'), null, 'streams are not hashed');
+  t.equal(await res.text(), 'report');
+
+  res = await get(client, '/modified', { 'if-modified-since': 'Wed, 01 May 2024 10:00:00 GMT' });
+  t.equal(res.status, 304);
+  res = await get(client, '/modified', { 'if-modified-since': 'Thu, 02 May 2024 10:00:00 GMT' });
+  t.equal(res.status, 304);
+  res = await get(client, '/modified', { 'if-modified-since': 'Tue, 30 Apr 2024 10:00:00 GMT' });
+  t.equal(res.status, 200);
+  res = await get(client, '/modified', { 'if-modified-since': 'invalid' });
+  t.equal(res.status, 200);
+});
+
+t.test('HttpConditionalGet skips unsafe methods and errors', async t => {
+  const client = createApp();
+  let res = await get(client, '/items', { 'if-none-match': '*' }, 'POST');
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('etag'), null);
+
+  res = await get(client, '/missing', { 'if-none-match': '*' });
+  t.equal(res.status, 404);
+  t.equal(res.headers.get('etag'), null);
+});
+
+t.test('HttpConditionalGet works with test context', async t => {
+  const conditional = HttpConditionalGet.middleware();
+  const tester = new TestMiddleware(async ctx => {
+    await conditional(ctx, async () => {
+      ctx.json({ test: true });
+    });
+  });
+  const first = await tester.run({ path: '/' });
+  const etag = first.getHeader('etag') as string;
+  t.ok(etag);
+  const second = await tester.run({ path: '/', headers: { 'if-none-match': etag } });
+  t.equal(second.response.status, 304);
+  t.equal(second.response.body, null);
+});
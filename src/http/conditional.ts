@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import * as internal from 'node:stream';
+
+import { IHttpContext } from './context.js';
+
+export interface HttpConditionalGetOpts {
+  /**
+   * weak etag `W/"..."`, semantically equal bodies, e.g. compressed ones, still match
+   */
+  weak: boolean
+  /**
+   * hash algorithm of etag
+   */
+  algorithm: string
+}
+
+const defaultOptions = {
+  weak: true,
+  algorithm: 'sha1',
+};
+
+const CONDITIONAL_METHODS = ['GET', 'HEAD'];
+
+/**
+ * set Last-Modified of response, checked against If-Modified-Since
+ * @param ctx
+ * @param date
+ */
+export function setLastModified(ctx: IHttpContext, date: Date | number) {
+  ctx.headers.set('Last-Modified', new Date(date).toUTCString());
+}
+
+/**
+ * Conditional GET middleware, adds ETag to json and string bodies set with json(), view() or reply(),
+ * and responds 304 when If-None-Match or If-Modified-Since matches. ETag or Last-Modified
+ * set by handlers is used as is, streams are not hashed.
+ */
+export class HttpConditionalGet {
+  opts: HttpConditionalGetOpts;
+
+  constructor(opts: Partial<HttpConditionalGetOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+  }
+
+  static middleware(opts: Partial<HttpConditionalGetOpts> = {}) {
+    const conditional = new HttpConditionalGet(opts);
+    return conditional.handle.bind(conditional);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    await next();
+
+    const { status, body } = ctx.response;
+    if (!CONDITIONAL_METHODS.includes(ctx.method.toUpperCase()) || status < 200 || status >= 300) {
+      return;
+    }
+    const headers = ctx.response.headers || {};
+    let etag = headers['etag'] as string | undefined;
+    if (!etag && typeof body != 'undefined' && body !== null && !(body instanceof internal.Readable)) {
+      etag = this.etag(body);
+      ctx.headers.set('ETag', etag);
+    }
+
+    if (this.fresh(ctx, etag, headers['last-modified'] as string | undefined)) {
+      if (body instanceof internal.Readable) {
+        body.destroy();
+      }
+      ctx.reply({ status: 304, body: null });
+    }
+  }
+
+  /**
+   * etag of body, `"<length>-<hash>"`
+   * @param body
+   * @returns {string}
+   */
+  etag(body: any) {
+    const raw = typeof body == 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body);
+    const hash = createHash(this.opts.algorithm).update(raw).digest('base64').replace(/=+$/, '');
+    const tag = `"${Buffer.byteLength(raw).toString(16)}-${hash}"`;
+    return this.opts.weak ? `W/${tag}` : tag;
+  }
+
+  /**
+   * check request freshness, If-None-Match takes precedence over If-Modified-Since
+   * @param ctx
+   * @param etag
+   * @param lastModified
+   * @returns {boolean}
+   */
+  fresh(ctx: IHttpContext, etag?: string, lastModified?: string) {
+    const noneMatch = ctx.headers.get('if-none-match');
+    const modifiedSince = ctx.headers.get('if-modified-since');
+    if (!noneMatch && !modifiedSince) {
+      return false;
+    }
+    if (/(?:^|,)\s*no-cache\s*(?:,|$)/.test(ctx.headers.get('cache-control') || '')) {
+      return false;
+    }
+
+    if (noneMatch) {
+      if (!etag) {
+        return false;
+      }
+      if (noneMatch.trim() == '*') {
+        return true;
+      }
+      // weak comparison
+      const tag = opaqueTag(etag);
+      return noneMatch.split(',').some(value => opaqueTag(value.trim()) == tag);
+    }
+
+    if (!lastModified) {
+      return false;
+    }
+    const modified = Date.parse(lastModified);
+    const since = Date.parse(modifiedSince as string);
+    return !isNaN(modified) && !isNaN(since) && modified <= since;
+  }
+}
+
+function opaqueTag(etag: string) {
+  return etag.startsWith('W/') ? etag.slice(2) : etag;
+}
@@ -1,2 +1,12 @@
 export const HTTP_KEY_VIEW_PROVIDER = "viewProvider";
-export const HTTP_KEY_REQ_ID = "correlationId";
\ No newline at end of file
+export const HTTP_KEY_REQ_ID = "correlationId";
+export const HTTP_KEY_ERROR_FORMAT = "errorFormat";
+export const HTTP_KEY_ROUTE = "route";
+export const HTTP_KEY_USER = "user";
+export const HTTP_KEY_VIEW_DATA = "viewData";
+export const HTTP_KEY_CSP_NONCE = "cspNonce";
+export const HTTP_KEY_CSRF_TOKEN = "csrfToken";
+export const HTTP_KEY_UPGRADE = "upgrade";
+export const HTTP_KEY_SPAN = "span";
+export const HTTP_KEY_TRUST_PROXY = "trustProxy";
+export const HTTP_KEY_ERROR_STATUS = "errorStatus";
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as internal from 'node:stream';
 import { IHttpError, IHttpResponse } from './response.js';
+import { HttpSse, IHttpSseOpts } from './sse.js';
 import { deepClone } from '../support/obj.js';
 
 export interface IHttpCookieOpts {
@@ -22,6 +23,15 @@ export interface IHttpCookies {
   set(name: string, value: string, options?: IHttpCookieOpts): any
 }
 
+export interface IHttpFile {
+  originalName: string
+  type: string
+  size: number
+  path: string
+  extension: string
+  readStream(): internal.Readable
+}
+
 export interface IHttpContext {
   query: HttpRequestQuery
   headers: HttpRequestHeaders
@@ -32,9 +42,13 @@ export interface IHttpContext {
    */
   body: any
   /**
-   * uploaded files
+   * uploaded files, fields with multiple files hold an array
    */
-  files: any
+  files: Record<string, IHttpFile | IHttpFile[]>
+  /**
+   * aborted when client disconnects or deadline passes, pass it to cancellable work
+   */
+  signal: AbortSignal
   host: string
   path: string
   method: string
@@ -59,6 +73,14 @@ export interface IHttpContext {
   reply(response: IHttpResponse): void
   view(template: any, data?: any, status?: number): Promise<any>
   stream(stream: internal.Readable, mime?: string): void
+  /**
+   * respond with server-sent events stream
+   */
+  sse(opts?: Partial<IHttpSseOpts>): HttpSse
+  /**
+   * raw request body stream, used by body parsers
+   */
+  requestStream(): internal.Readable
   redirect(url: string, alt?: string): void
   // shouldRender(): boolean
   // getView(): { template: string, data: any }
@@ -212,4 +234,64 @@ export class HttpCookies {
   set(name: string, value: string, opts: IHttpCookieOpts) {
     this.cookies[name] = { value, ...opts };
   }
-}
\ No newline at end of file
+}
+/**
+ * cookies for adapters writing their own response,
+ * every set() is serialized and handed over as set-cookie header
+ */
+export class HttpResponseCookies extends HttpCookies {
+  constructor(raw: string, readonly setCookieCb: (cookie: string) => any) {
+    super(raw);
+  }
+
+  get(name: string) {
+    const value = super.get(name);
+    if (typeof value != 'string') {
+      return value;
+    }
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * request cookies are kept as is, same as koa
+   */
+  set(name: string, value: string, opts: IHttpCookieOpts = {}) {
+    this.setCookieCb(serializeCookie(name, value, opts));
+  }
+}
+
+/**
+ * serialize cookie for set-cookie header
+ * @param name 
+ * @param value 
+ * @param opts 
+ * @returns {string}
+ */
+export function serializeCookie(name: string, value: string, opts: IHttpCookieOpts = {}) {
+  const parts = [`${name}=${encodeURIComponent(value || '')}`];
+  if (typeof opts.maxAge == 'number') {
+    parts.push(`Max-Age=${Math.floor(opts.maxAge / 1000)}`);
+    parts.push(`Expires=${new Date(Date.now() + opts.maxAge).toUTCString()}`);
+  } else if (opts.expires) {
+    parts.push(`Expires=${opts.expires.toUTCString()}`);
+  }
+  parts.push(`Path=${opts.path || '/'}`);
+  if (opts.domain) {
+    parts.push(`Domain=${opts.domain}`);
+  }
+  if (opts.secure) {
+    parts.push('Secure');
+  }
+  if (opts.httpOnly !== false) {
+    parts.push('HttpOnly');
+  }
+  if (opts.sameSite) {
+    const sameSite = opts.sameSite === true ? 'strict' : opts.sameSite;
+    parts.push(`SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`);
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,80 @@
+import t from 'tap';
+
+import { correlationId, parseTraceparent } from './correlation.js';
+import { HttpRouter } from './router/index.js';
+import { ulid } from '../support/random.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+// service code without access to ctx
+async function currentId() {
+  await new Promise(resolve => setImmediate(resolve));
+  return correlationId();
+}
+
+function createApp(opts = {}) {
+  const client = TestHttpApp(opts);
+  const app = client.app;
+  const router = new HttpRouter();
+  router.get('/id', async ctx => {
+    ctx.json({ id: await currentId() });
+  });
+  app.router(router);
+  return client;
+}
+
+t.test('HttpApp generates uuid and ulid correlation ids', async t => {
+  let client = createApp({ correlationId: { generator: 'uuid' } });
+  let res = await client.fetch(new Request('http://localhost/id'));
+  const uuid = res.headers.get('x-req-id');
+  t.match(uuid, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  t.same(await res.json(), { id: uuid });
+
+  client = createApp({ correlationId: { generator: 'ulid' } });
+  res = await client.fetch(new Request('http://localhost/id'));
+  t.match(res.headers.get('x-req-id'), /^[0-9A-HJKMNP-TV-Z]{26}$/);
+
+  client = createApp({ correlationId: { generator: () => 'custom' } });
+  res = await client.fetch(new Request('http://localhost/id'));
+  t.equal(res.headers.get('x-req-id'), 'custom');
+  t.equal(correlationId(), undefined, 'not available outside of request');
+});
+
+t.test('HttpApp trusts valid incoming ids', async t => {
+  const client = createApp({ correlationId: { generator: 'uuid', trustHeaders: true } });
+
+  let res = await client.fetch(new Request('http://localhost/id', { headers: { 'x-request-id': 'abc-123' } }));
+  t.equal(res.headers.get('x-req-id'), 'abc-123');
+  t.same(await res.json(), { id: 'abc-123' });
+
+  res = await client.fetch(new Request('http://localhost/id', {
+    headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+  }));
+  t.equal(res.headers.get('x-req-id'), '4bf92f3577b34da6a3ce929d0e0e4736');
+
+  res = await client.fetch(new Request('http://localhost/id', {
+    headers: { 'x-request-id': 'bad id<script>', traceparent: 'invalid' },
+  }));
+  t.not(res.headers.get('x-req-id'), 'bad id<script>');
+  t.match(res.headers.get('x-req-id'), /^[0-9a-f-]{36}$/);
+
+  const untrusted = createApp();
+  res = await untrusted.fetch(new Request('http://localhost/id', { headers: { 'x-request-id': 'abc-123' } }));
+  t.not(res.headers.get('x-req-id'), 'abc-123');
+});
+
+t.test('parseTraceparent() validates W3C traceparent', async t => {
+  t.same(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'), {
+    version: '00',
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    parentId: '00f067aa0ba902b7',
+    flags: '01',
+  });
+  t.equal(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01'), null);
+  t.equal(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'), null);
+  t.equal(parseTraceparent(undefined), null);
+});
+
+t.test('ulid() is sortable by time', async t => {
+  t.ok(ulid(1000) < ulid(2000));
+  t.equal(ulid(0).slice(0, 10), '0000000000');
+});
@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { IHttpContext } from './context.js';
+import { ulid, uuidv4 } from '../support/random.js';
+
+export type HttpCorrelationIdGenerator = () => { toString(): string };
+
+export type HttpCorrelationIdFormat = 'counter' | 'uuid' | 'ulid';
+
+export interface IHttpCorrelationIdOpts {
+  /**
+   * built-in id format or custom generator
+   * @default "counter"
+   */
+  generator?: HttpCorrelationIdFormat | HttpCorrelationIdGenerator
+  /**
+   * reuse valid id of incoming request, true for `x-request-id` and `traceparent`
+   */
+  trustHeaders?: boolean | string[]
+  /**
+   * validate incoming `x-request-id` or custom header value
+   */
+  validate?: (id: string, header: string) => boolean
+}
+
+export interface IHttpTraceparent {
+  version: string
+  traceId: string
+  parentId: string
+  flags: string
+}
+
+export const HTTP_CORRELATION_HEADERS = ['x-request-id', 'traceparent'];
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * correlation id of request being handled, available anywhere in request's async flow
+ * @returns {string|undefined}
+ */
+export function correlationId(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * run function with correlation id
+ * @param id
+ * @param fn
+ */
+export function runWithCorrelationId<T>(id: string, fn: () => T): T {
+  return storage.run(id, fn);
+}
+
+/**
+ * parse W3C trace context traceparent header
+ * @param value
+ * @returns {IHttpTraceparent|null}
+ */
+export function parseTraceparent(value: string | undefined): IHttpTraceparent | null {
+  const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec((value || '').trim());
+  if (!match || match[1] == 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return null;
+  }
+  return { version: match[1], traceId: match[2], parentId: match[3], flags: match[4] };
+}
+
+/**
+ * default validation of incoming request id, printable and limited in length
+ * @param id
+ * @returns {boolean}
+ */
+export function isValidRequestId(id: string) {
+  return /^[A-Za-z0-9._:+=\/-]{1,128}$/.test(id);
+}
+
+/**
+ * resolves correlation id of request from trusted headers or generator
+ */
+export class HttpCorrelationId {
+  protected counter = 0;
+  protected generator: HttpCorrelationIdGenerator;
+  protected headers: string[];
+
+  constructor(protected opts: IHttpCorrelationIdOpts = {}) {
+    this.generator = this.createGenerator(opts.generator || 'counter');
+    this.headers = opts.trustHeaders === true ? HTTP_CORRELATION_HEADERS : (opts.trustHeaders || []);
+  }
+
+  /**
+   * replace generator
+   * @param generator
+   */
+  use(generator: HttpCorrelationIdFormat | HttpCorrelationIdGenerator) {
+    this.generator = this.createGenerator(generator);
+  }
+
+  /**
+   * id from first trusted header with valid value, otherwise generated
+   * @param ctx
+   * @returns {string}
+   */
+  resolve(ctx: IHttpContext): string {
+    for (const header of this.headers) {
+      const value = ctx.headers.get(header);
+      if (!value) {
+        continue;
+      }
+      if (header == 'traceparent') {
+        const traceparent = parseTraceparent(value);
+        if (traceparent) {
+          return traceparent.traceId;
+        }
+        continue;
+      }
+      const validate = this.opts.validate || isValidRequestId;
+      if (validate(value, header)) {
+        return value;
+      }
+    }
+    return this.generator().toString();
+  }
+
+  protected createGenerator(generator: HttpCorrelationIdFormat | HttpCorrelationIdGenerator): HttpCorrelationIdGenerator {
+    switch (generator) {
+      case 'counter':
+        return () => this.counter++;
+      case 'uuid':
+        return uuidv4;
+      case 'ulid':
+        return () => ulid();
+    }
+    return generator;
+  }
+}
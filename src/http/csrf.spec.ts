@@ -0,0 +1,100 @@
+import t from 'tap';
+
+import { HttpBodyParser } from './body.js';
+import { HttpCsrf, HttpCsrfOpts } from './csrf.js';
+import { HttpRouter } from './router/index.js';
+import { SessionMiddleware } from '../session/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(opts: Partial<HttpCsrfOpts> = {}) {
+  const client = TestHttpApp();
+  const app = client.app;
+  if (opts.mode != 'cookie') {
+    app.use(SessionMiddleware.middleware());
+  }
+  app.use(HttpBodyParser.middleware());
+  app.use(HttpCsrf.middleware(opts));
+  app.viewEngine({
+    async render(_ctx, _template, data) {
+      return `<input name="_csrf" value="${data.csrfToken}">`;
+    },
+    async renderError() {
+      return '';
+    },
+  });
+  const router = new HttpRouter();
+  router.get('/form', async ctx => {
+    await ctx.view('form');
+  });
+  router.post('/form', async ctx => {
+    ctx.json({ saved: true });
+  });
+  app.router(router);
+  return client;
+}
+
+function cookies(res: Response) {
+  return res.headers.getSetCookie().map(cookie => cookie.split(';')[0]).join('; ');
+}
+
+t.test('HttpCsrf keeps token in session and exposes it to views', async t => {
+  const client = createApp();
+  const page = await client.fetch(new Request('http://localhost/form'));
+  const token = /value="([^"]+)"/.exec(await page.text())?.[1] as string;
+  const cookie = cookies(page);
+  t.ok(token);
+
+  let res = await client.fetch(new Request('http://localhost/form', { method: 'POST', headers: { cookie, accept: 'application/json' } }));
+  t.equal(res.status, 419);
+  t.same(await res.json(), { message: 'CSRF token mismatch' });
+
+  res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie, 'content-type': 'application/x-www-form-urlencoded' },
+    body: `_csrf=${encodeURIComponent(token)}`,
+  }));
+  t.equal(res.status, 200);
+  t.same(await res.json(), { saved: true });
+
+  res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie, 'x-csrf-token': token },
+  }));
+  t.equal(res.status, 200);
+
+  res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie, 'x-csrf-token': token.slice(1) + 'x' },
+  }));
+  t.equal(res.status, 419);
+
+  // token of one session is rejected in another
+  const other = await client.fetch(new Request('http://localhost/form'));
+  res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie: cookies(other), 'x-csrf-token': token },
+  }));
+  t.equal(res.status, 419);
+});
+
+t.test('HttpCsrf double submit cookie mode', async t => {
+  const client = createApp({ mode: 'cookie', status: 403 });
+  const page = await client.fetch(new Request('http://localhost/form'));
+  const setCookie = page.headers.getSetCookie()[0];
+  t.match(setCookie, /^XSRF-TOKEN=[\w-]+; Path=\/; SameSite=Lax$/);
+  const cookie = cookies(page);
+  const token = cookie.split('=')[1];
+
+  let res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie, 'x-csrf-token': token },
+  }));
+  t.equal(res.status, 200);
+  t.equal(res.headers.getSetCookie().length, 0, 'existing token is kept');
+
+  res = await client.fetch(new Request('http://localhost/form', {
+    method: 'POST',
+    headers: { cookie: 'XSRF-TOKEN=forged', 'x-csrf-token': token },
+  }));
+  t.equal(res.status, 403);
+});
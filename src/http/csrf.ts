@@ -0,0 +1,131 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+
+import { IHttpContext, IHttpCookieOpts } from './context.js';
+import { HTTP_KEY_CSRF_TOKEN } from './consts.js';
+import { shareViewData } from './view.js';
+import { Session } from '../session/index.js';
+
+export interface HttpCsrfOpts {
+  /**
+   * session: token is kept in session of SessionMiddleware,
+   * cookie: double submit cookie, for apps without session
+   */
+  mode: 'session' | 'cookie'
+  /**
+   * body field with token, body must be parsed before
+   */
+  field: string
+  header: string
+  /**
+   * ctx value key of session, same as SessionMiddleware
+   */
+  sessionKey: string
+  /**
+   * cookie name in cookie mode, readable by scripts to send token in header
+   */
+  cookie: string
+  cookieOpts: IHttpCookieOpts
+  /**
+   * methods without token check
+   */
+  ignoreMethods: string[]
+  status: 419 | 403
+  message: string
+}
+
+const defaultOptions = {
+  mode: 'session' as const,
+  field: '_csrf',
+  header: 'x-csrf-token',
+  sessionKey: 'sess',
+  cookie: 'XSRF-TOKEN',
+  cookieOpts: { httpOnly: false, sameSite: 'lax' as const },
+  ignoreMethods: ['GET', 'HEAD', 'OPTIONS'],
+  status: 419 as const,
+  message: 'CSRF token mismatch',
+};
+
+// session key of token
+const SESSION_TOKEN_KEY = '_csrf';
+
+/**
+ * CSRF middleware, token is available as `ctx.value('csrfToken')` and `csrfToken` in view data
+ */
+export class HttpCsrf {
+  opts: HttpCsrfOpts;
+
+  constructor(opts: Partial<HttpCsrfOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+  }
+
+  static middleware(opts: Partial<HttpCsrfOpts> = {}) {
+    const csrf = new HttpCsrf(opts);
+    return csrf.handle.bind(csrf);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    const token = this.opts.mode == 'cookie' ? this.cookieToken(ctx) : this.sessionToken(ctx);
+    ctx.put(HTTP_KEY_CSRF_TOKEN, token);
+    shareViewData(ctx, { csrfToken: token });
+
+    if (!this.opts.ignoreMethods.includes(ctx.method.toUpperCase()) && !this.verify(token, this.submitted(ctx))) {
+      ctx.abort({ status: this.opts.status, message: this.opts.message, expose: true });
+      return;
+    }
+
+    return await next();
+  }
+
+  protected sessionToken(ctx: IHttpContext) {
+    const sess = ctx.value<Session>(this.opts.sessionKey);
+    if (!sess) {
+      throw new Error('HttpCsrf session mode requires SessionMiddleware before it.');
+    }
+    let token = sess.get(SESSION_TOKEN_KEY);
+    if (!token) {
+      token = this.generate();
+      sess.set(SESSION_TOKEN_KEY, token);
+    }
+    return token as string;
+  }
+
+  protected cookieToken(ctx: IHttpContext) {
+    let token = ctx.cookies.get(this.opts.cookie);
+    if (!token) {
+      token = this.generate();
+      ctx.cookies.set(this.opts.cookie, token, { secure: ctx.secure, ...this.opts.cookieOpts });
+    }
+    return token;
+  }
+
+  protected submitted(ctx: IHttpContext): string | undefined {
+    const header = ctx.headers.get(this.opts.header);
+    if (header) {
+      return header;
+    }
+    const body = ctx.body;
+    if (body && typeof body == 'object' && typeof body[this.opts.field] == 'string') {
+      return body[this.opts.field];
+    }
+    return undefined;
+  }
+
+  protected verify(token: string, submitted: string | undefined) {
+    if (!submitted) {
+      return false;
+    }
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(submitted);
+    return expected.length == actual.length && timingSafeEqual(expected, actual);
+  }
+
+  protected generate() {
+    return randomBytes(32).toString('base64url');
+  }
+}
@@ -0,0 +1,189 @@
+import t from 'tap';
+
+import { HttpErrorRegistry } from './error.js';
+import { HttpRouter } from './router/index.js';
+import { IHttpError } from './response.js';
+import { ResultError } from '../support/result.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+class NotFoundError extends Error { }
+
+class RetryLaterError extends Error {
+  constructor(readonly seconds: number) {
+    super('Try again later');
+  }
+}
+
+class ValidationError extends Error {
+  readonly errors = { name: 'required' };
+}
+
+// not derived from Error, e.g. errors of other realms or libraries
+class LegacyError {
+  constructor(readonly reason: string) { }
+}
+
+function createApp(viewEngine = false) {
+  const client = TestHttpApp({ logErrors: false });
+  const app = client.app;
+  const router = new HttpRouter();
+  router.get('/missing', async () => {
+    throw new NotFoundError('User not found');
+  });
+  router.get('/busy', async () => {
+    throw new RetryLaterError(30);
+  });
+  router.get('/invalid', async () => {
+    throw new ValidationError('Invalid input');
+  });
+  router.get('/legacy', async () => {
+    throw new LegacyError('gone');
+  });
+  router.get('/broken', async () => {
+    const err: any = new Error('Broken mapper');
+    err.type = 'broken';
+    throw err;
+  });
+  router.get('/quota', async () => {
+    const err: any = new Error('Quota exceeded');
+    err.type = 'quota';
+    throw err;
+  });
+  app.router(router);
+  app.mapError(NotFoundError, { status: 404 });
+  app.mapError(RetryLaterError, (err: RetryLaterError) => ({
+    status: 503,
+    expose: true,
+    headers: { 'Retry-After': String(err.seconds) },
+  }));
+  app.mapError(ValidationError, (err: ValidationError) => ({
+    status: 422,
+    body: { message: err.message, fields: err.errors },
+  }));
+  app.mapError(LegacyError, (err: LegacyError) => ({ status: 410, message: err.reason }));
+  app.mapError((err: any) => err.type == 'broken', () => {
+    throw new Error('mapper failed');
+  });
+  app.mapError((err: any) => err.type == 'quota', { status: 429, message: 'Slow down' });
+  if (viewEngine) {
+    app.viewEngine({
+      async render() {
+        return '';
+      },
+      async renderError(_ctx, error: IHttpError) {
+        return `<h1>${error.status} ${error.message}</h1>${error.data ? JSON.stringify(error.data) : ''}`;
+      },
+    });
+  }
+  return client;
+}
+
+t.test('HttpErrorRegistry:resolve() matches classes and predicates in order', async t => {
+  const registry = new HttpErrorRegistry();
+  registry.register(NotFoundError, { status: 404 });
+  registry.register(LegacyError, { status: 410 });
+  registry.register(Error, { status: 500, message: 'generic' });
+  registry.register(() => true, { status: 418 });
+
+  t.same(registry.resolve(new NotFoundError(), {} as any), { status: 404 });
+  t.same(registry.resolve(new TypeError(), {} as any), { status: 500, message: 'generic' });
+  t.same(registry.resolve(new LegacyError('old'), {} as any), { status: 410 }, 'classes not derived from Error use instanceof');
+  t.same(registry.resolve('string error', {} as any), { status: 418 });
+});
+
+t.test('HttpApp:mapError() maps errors to json responses', async t => {
+  const client = createApp();
+
+  let res = await client.fetch(new Request('http://localhost/missing'));
+  t.equal(res.status, 404);
+  t.same(await res.json(), { message: 'User not found' });
+
+  res = await client.fetch(new Request('http://localhost/busy'));
+  t.equal(res.status, 503);
+  t.equal(res.headers.get('retry-after'), '30');
+  t.same(await res.json(), { message: 'Try again later' });
+
+  res = await client.fetch(new Request('http://localhost/invalid'));
+  t.equal(res.status, 422);
+  t.same(await res.json(), { message: 'Invalid input', fields: { name: 'required' } });
+
+  res = await client.fetch(new Request('http://localhost/quota'));
+  t.equal(res.status, 429);
+  t.same(await res.json(), { message: 'Slow down' });
+
+  res = await client.fetch(new Request('http://localhost/legacy'));
+  t.equal(res.status, 410);
+  t.same(await res.json(), { message: 'gone' });
+
+  res = await client.fetch(new Request('http://localhost/broken'));
+  t.equal(res.status, 500, 'failing mapper falls back to 500');
+  t.same(await res.json(), { message: 'Internal server error.' });
+});
+
+t.test('HttpApp:mapError() applies to view engine errors', async t => {
+  const client = createApp(true);
+  const headers = { accept: 'text/html' };
+
+  let res = await client.fetch(new Request('http://localhost/busy', { headers }));
+  t.equal(res.status, 503);
+  t.equal(res.headers.get('retry-after'), '30');
+  t.equal(await res.text(), '<h1>503 Try again later</h1>');
+
+  res = await client.fetch(new Request('http://localhost/invalid', { headers }));
+  t.equal(res.status, 422);
+  t.equal(await res.text(), '<h1>422 Invalid input</h1>{"message":"Invalid input","fields":{"name":"required"}}');
+});
+
+t.test('HttpApp errorFormat problem responds with problem details', async t => {
+  const client = TestHttpApp({ logErrors: false, errorFormat: 'problem' });
+  const app = client.app;
+  const router = new HttpRouter();
+  router.get('/result', async () => {
+    throw new ResultError('Balance too low', 403, { balance: 30 });
+  });
+  router.get('/missing', async () => {
+    throw new NotFoundError('User not found');
+  });
+  router.get('/abort', async ctx => {
+    ctx.abort({ status: 409, message: 'Already exists', expose: true, data: { id: 1 } });
+  });
+  app.router(router);
+  app.mapError(NotFoundError, { status: 404, type: 'https://example.com/probs/not-found' });
+
+  let res = await client.fetch(new Request('http://localhost/result'));
+  t.equal(res.status, 403);
+  t.equal(res.headers.get('content-type'), 'application/problem+json');
+  t.same(await res.json(), {
+    balance: 30,
+    type: 'about:blank',
+    title: 'Forbidden',
+    status: 403,
+    detail: 'Balance too low',
+    instance: res.headers.get('x-req-id'),
+  });
+
+  res = await client.fetch(new Request('http://localhost/missing'));
+  t.match(await res.json(), { type: 'https://example.com/probs/not-found', title: 'Not Found', status: 404 });
+
+  res = await client.fetch(new Request('http://localhost/abort'));
+  t.equal(res.status, 409);
+  t.equal(res.headers.get('content-type'), 'application/problem+json');
+  t.same(await res.json(), {
+    id: 1,
+    type: 'about:blank',
+    title: 'Conflict',
+    status: 409,
+    detail: 'Already exists',
+    instance: res.headers.get('x-req-id'),
+  });
+});
+
+t.test('ResultError:toHttpResponse() supports problem format', async t => {
+  const err = new ResultError('Balance too low', 403, { balance: 30 });
+  t.same(err.toHttpResponse(), { status: 403, body: { message: 'Balance too low', balance: 30 } });
+  t.same(err.toHttpResponse('problem', '12'), {
+    status: 403,
+    headers: { 'content-type': 'application/problem+json' },
+    body: { balance: 30, type: 'about:blank', title: 'Forbidden', status: 403, detail: 'Balance too low', instance: '12' },
+  });
+});
@@ -0,0 +1,178 @@
+import { STATUS_CODES } from 'node:http';
+import { HTTP_KEY_ERROR_STATUS } from './consts.js';
+import { IHttpContext } from './context.js';
+import { IHttpError } from './response.js';
+
+/**
+ * error thrown by ctx.throw() in adapters without their own http errors
+ */
+export class HttpError extends Error implements IHttpError {
+  readonly code: number;
+  readonly expose: boolean;
+
+  constructor(readonly status: number, message?: string, readonly data?: any) {
+    super(message || STATUS_CODES[status] || 'Unknown error');
+    this.code = status;
+    // same as http-errors, client errors are safe to expose
+    this.expose = status < 500;
+  }
+}
+
+/**
+ * response for mapped exception
+ */
+export interface IHttpErrorMapping {
+  status: number
+  /**
+   * overrides error message
+   */
+  message?: string
+  /**
+   * expose error message, defaults to true for client errors
+   */
+  expose?: boolean
+  /**
+   * replaces default `{ message }` body, passed as `data` to view engine
+   */
+  body?: any
+  headers?: Record<string, string>
+  /**
+   * problem type uri, used with problem error format
+   */
+  type?: string
+}
+
+export type HttpErrorMatcher<E = any> = (abstract new (...args: any[]) => E) | ((err: any) => boolean);
+
+export type HttpErrorMapping<E = any> = IHttpErrorMapping | ((err: E, ctx: IHttpContext) => IHttpErrorMapping);
+
+/**
+ * class syntax or error constructor, classes can't be called as predicates
+ * @param fn
+ * @returns {boolean}
+ */
+function isConstructor(fn: Function) {
+  return fn === Error || fn.prototype instanceof Error || /^class[\s{]/.test(Function.prototype.toString.call(fn));
+}
+
+export class HttpErrorRegistry {
+  protected entries: Array<{ matcher: HttpErrorMatcher, mapping: HttpErrorMapping }> = [];
+
+  register<E = any>(matcher: HttpErrorMatcher<E>, mapping: HttpErrorMapping<E>) {
+    this.entries.push({ matcher, mapping });
+    return this;
+  }
+
+  /**
+   * find mapping for error, first registered match wins
+   * @param err
+   * @param ctx
+   * @returns {IHttpErrorMapping|null}
+   */
+  resolve(err: any, ctx: IHttpContext): IHttpErrorMapping | null {
+    for (const { matcher, mapping } of this.entries) {
+      if (this.matches(matcher, err)) {
+        return typeof mapping == 'function' ? mapping(err, ctx) : mapping;
+      }
+    }
+    return null;
+  }
+
+  protected matches(matcher: HttpErrorMatcher, err: any) {
+    // classes are matched with instanceof, other functions are predicates
+    if (isConstructor(matcher)) {
+      return err instanceof (matcher as any);
+    }
+    return (matcher as (err: any) => boolean)(err);
+  }
+}
+
+/**
+ * default: `{ message, ...data }`, problem: RFC 9457 `application/problem+json`
+ */
+export type HttpErrorFormat = 'default' | 'problem';
+
+export const HTTP_PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export interface IHttpProblem {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  [extension: string]: any
+}
+
+export interface IHttpProblemOpts {
+  status: number
+  detail?: string
+  /**
+   * correlation id of request
+   */
+  instance?: string
+  type?: string
+  /**
+   * extension members, can't override standard members
+   */
+  extensions?: Record<string, any>
+}
+
+/**
+ * create RFC 9457 problem details
+ * @param opts
+ * @returns {IHttpProblem}
+ */
+export function httpProblem(opts: IHttpProblemOpts): IHttpProblem {
+  const problem: IHttpProblem = {
+    ...(opts.extensions || {}),
+    type: opts.type || 'about:blank',
+    title: STATUS_CODES[opts.status] || 'Unknown Error',
+    status: opts.status,
+  };
+  if (opts.detail) {
+    problem.detail = opts.detail;
+  } else {
+    delete problem.detail;
+  }
+  if (opts.instance) {
+    problem.instance = opts.instance;
+  } else {
+    delete problem.instance;
+  }
+  return problem;
+}
+
+/**
+ * body for aborted responses
+ * @param format
+ * @param status
+ * @param message
+ * @param data extra members
+ * @param instance correlation id
+ */
+export function httpAbortBody(format: HttpErrorFormat | undefined, status: number, message?: string, data?: any, instance?: string) {
+  if (format == 'problem') {
+    return httpProblem({ status, detail: message, instance, extensions: data });
+  }
+  if (typeof message == 'undefined') {
+    return { ...(data || {}) };
+  }
+  return { message, ...(data || {}) };
+}
+
+/**
+ * status app responds error with, including `httpApp.mapError()` mappings, for middlewares
+ * that see errors before app responds them
+ * @param ctx
+ * @param err
+ * @returns {number}
+ */
+export function httpErrorStatus(ctx: IHttpContext, err: any): number {
+  const resolve = ctx.value<(err: any) => number>(HTTP_KEY_ERROR_STATUS);
+  if (resolve) {
+    return resolve(err);
+  }
+  // outside of app
+  const code = Number(err?.statusCode || err?.status || err?.code);
+  return code >= 100 && code <= 599 ? code : 500;
+}
@@ -0,0 +1,137 @@
+import t from 'tap';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+
+import { HttpApp } from './app.js';
+import { HttpExpress, HttpExpressMiddlewareCallback } from './express.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+
+/**
+ * minimal express like app, enough to drive the adapter
+ */
+function fakeExpress() {
+  const stack: HttpExpressMiddlewareCallback[] = [];
+  const app = (req: IncomingMessage, res: ServerResponse) => {
+    let i = 0;
+    const next = (err?: any) => {
+      if (err) {
+        res.statusCode = 500;
+        res.end('express error');
+        return;
+      }
+      const fn = stack[i++];
+      if (!fn) {
+        res.statusCode = 404;
+        res.end('express not found');
+        return;
+      }
+      fn(req, res, next);
+    };
+    next();
+  };
+  return Object.assign(app, {
+    use(fn: HttpExpressMiddlewareCallback) {
+      stack.push(fn);
+    },
+    listen(...args: any): Server {
+      return createServer(app).listen(...args);
+    },
+  });
+}
+
+const router = new HttpRouter();
+router.get('/json', async ctx => {
+  ctx.json({ hello: ctx.query.get('name') });
+});
+router.get('/cookie', async ctx => {
+  ctx.cookies.set('token', 'a b', { httpOnly: true, sameSite: 'lax' });
+  ctx.json({ seen: ctx.cookies.get('seen') });
+});
+router.get('/redirect', async ctx => {
+  ctx.redirect('/json');
+});
+router.get('/stream', async ctx => {
+  ctx.stream(Readable.from(['chunk-1', 'chunk-2']), 'text/plain');
+});
+router.get('/abort', async ctx => {
+  ctx.abort(403, 'Forbidden');
+});
+router.get('/throw', async ctx => {
+  ctx.throw(400, 'Bad input');
+});
+router.get('/unserializable', async ctx => {
+  ctx.json({ count: BigInt(1) });
+});
+
+const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+const app = new HttpApp({ use: new HttpExpress(fakeExpress()), conf });
+app.router(router);
+
+let base = '';
+let server: Server;
+
+t.before(async () => {
+  await new Promise(resolve => {
+    server = app.listen(resolve);
+  });
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+t.teardown(() => {
+  server.close();
+});
+
+t.test('HttpExpress replies json', async t => {
+  const res = await fetch(`${base}/json?name=astad`);
+  t.equal(res.status, 200);
+  t.match(res.headers.get('content-type'), /application\/json/);
+  t.ok(res.headers.get('x-req-id'));
+  t.same(await res.json(), { hello: 'astad' });
+});
+
+t.test('HttpExpress reads and writes cookies', async t => {
+  const res = await fetch(`${base}/cookie`, { headers: { cookie: 'seen=yes' } });
+  t.same(await res.json(), { seen: 'yes' });
+  const cookie = res.headers.get('set-cookie') as string;
+  t.match(cookie, /^token=a%20b; Path=\//);
+  t.match(cookie, /HttpOnly/);
+  t.match(cookie, /SameSite=Lax/);
+});
+
+t.test('HttpExpress redirects', async t => {
+  const res = await fetch(`${base}/redirect`, { redirect: 'manual' });
+  t.equal(res.status, 302);
+  t.equal(res.headers.get('location'), '/json');
+});
+
+t.test('HttpExpress pipes streams', async t => {
+  const res = await fetch(`${base}/stream`);
+  t.equal(res.headers.get('content-type'), 'text/plain');
+  t.equal(await res.text(), 'chunk-1chunk-2');
+});
+
+t.test('HttpExpress aborts', async t => {
+  const res = await fetch(`${base}/abort`);
+  t.equal(res.status, 403);
+  t.same(await res.json(), { message: 'Forbidden' });
+});
+
+t.test('HttpExpress handles thrown http errors', async t => {
+  const res = await fetch(`${base}/throw`);
+  t.equal(res.status, 400);
+  t.same(await res.json(), { message: 'Bad input' });
+});
+
+t.test('HttpExpress hands over unmatched requests to express', async t => {
+  const res = await fetch(`${base}/missing`);
+  t.equal(res.status, 404);
+  t.equal(await res.text(), 'express not found');
+});
+
+t.test('HttpExpress passes response errors to express', async t => {
+  const res = await fetch(`${base}/unserializable`);
+  t.equal(res.status, 500);
+  t.equal(await res.text(), 'express error');
+});
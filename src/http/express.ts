@@ -0,0 +1,136 @@
+import { IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
+import { TLSSocket } from 'node:tls';
+
+import { HttpBaseContext, httpDisconnectSignal, writeHttpResponse } from './base.js';
+
+export type HttpExpressNextCallback = (err?: any) => void;
+
+export type HttpExpressMiddlewareCallback = (req: any, res: any, next: HttpExpressNextCallback) => any;
+
+export interface IHttpExpress {
+  (req: IncomingMessage, res: ServerResponse): any
+  listen(...args: any): Server
+  use(...args: any): any
+}
+
+/**
+ * request fields populated by express and common express middlewares
+ */
+export interface IHttpExpressRequest extends IncomingMessage {
+  originalUrl?: string
+  body?: any
+  files?: any
+  ip?: string
+  ips?: string[]
+  protocol?: string
+  secure?: boolean
+}
+
+export class HttpExpress {
+  constructor(protected app: IHttpExpress) {
+
+  }
+
+  use(...args: any) {
+    return this.app.use(...args);
+  }
+
+  handler(fn: any) {
+    this.app.use((req: IHttpExpressRequest, res: ServerResponse, next: HttpExpressNextCallback) => {
+      const httpCtx = new HttpExpressContext(req, res);
+      Promise.resolve(fn(httpCtx, async () => { }))
+        .then(() => httpCtx.commit(next))
+        .catch(next);
+    });
+  }
+
+  listen(...args: any) {
+    return this.app.listen(...args);
+  }
+
+  /**
+   * express app is request listener itself, express doesn't support http2 requests
+   * @returns {RequestListener}
+   */
+  callback(): RequestListener {
+    return (req, res) => this.app(req, res);
+  }
+}
+
+export class HttpExpressContext extends HttpBaseContext {
+  constructor(readonly req: IHttpExpressRequest, readonly res: ServerResponse) {
+    super(req.headers, httpDisconnectSignal(res));
+  }
+
+  get method() {
+    return this.req.method as string;
+  }
+
+  protected get rawUrl() {
+    return this.req.originalUrl || this.req.url || '/';
+  }
+
+  protected get remoteAddress() {
+    return this.req.socket?.remoteAddress || '';
+  }
+
+  protected get encrypted() {
+    return this.req.socket instanceof TLSSocket && this.req.socket.encrypted;
+  }
+
+  // express settings apply unless app trusts proxies itself
+  get protocol() {
+    return this.forwarded ? super.protocol : this.req.protocol || super.protocol;
+  }
+
+  get secure() {
+    return this.forwarded || typeof this.req.secure != 'boolean' ? super.secure : this.req.secure;
+  }
+
+  get ip() {
+    return this.forwarded ? super.ip : this.req.ip || super.ip;
+  }
+
+  get ips() {
+    return this.forwarded ? super.ips : this.req.ips || super.ips;
+  }
+
+  get body() {
+    return this.req.body;
+  }
+
+  set body(body: any) {
+    this.req.body = body;
+  }
+
+  get files() {
+    return this.req.files || {};
+  }
+
+  set files(files: any) {
+    this.req.files = files;
+  }
+
+  requestStream() {
+    return this.req;
+  }
+
+  /**
+   * write response, untouched response is handed over to next express middleware
+   * @param next
+   */
+  commit(next: HttpExpressNextCallback) {
+    if (this.res.headersSent || this.res.writableEnded) {
+      return;
+    }
+    if (this.response.status == 404 && typeof this.response.body == 'undefined' && !this.aborted) {
+      // keep headers set by astad, e.g. x-req-id
+      for (const key in this._headers) {
+        this.res.setHeader(key, this._headers[key]);
+      }
+      next();
+      return;
+    }
+    writeHttpResponse(this.res, this.payload(), this.method == 'HEAD');
+  }
+}
@@ -0,0 +1,88 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+
+import { HttpApp } from './app.js';
+import { HttpFetch } from './fetch.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+
+const router = new HttpRouter();
+router.get('/hello', async ctx => {
+  ctx.json({ hello: ctx.query.get('name') || 'world', host: ctx.host, secure: ctx.secure });
+});
+router.get('/session', async ctx => {
+  ctx.cookies.set('sess', 'abc');
+  ctx.json({ prev: ctx.cookies.get('sess') || null });
+});
+router.get('/stream', async ctx => {
+  ctx.stream(Readable.from(['a', 'b', 'c']), 'text/plain');
+});
+router.get('/unserializable', async ctx => {
+  ctx.json({ count: BigInt(1) });
+});
+
+const adapter = new HttpFetch();
+const app = new HttpApp({ use: adapter, conf: new Conf() });
+app.router(router);
+adapter.handler(app.handler());
+
+t.test('HttpFetch handles request directly', async t => {
+  const res = await adapter.fetch(new Request('https://example.com/hello?name=astad'));
+  t.equal(res.status, 200);
+  t.ok(res.headers.get('x-req-id'));
+  t.same(await res.json(), { hello: 'astad', host: 'example.com', secure: true });
+});
+
+t.test('HttpFetch handles cookies', async t => {
+  const res = await adapter.fetch(new Request('http://localhost/session', { headers: { cookie: 'sess=old' } }));
+  t.same(await res.json(), { prev: 'old' });
+  t.same(res.headers.getSetCookie(), ['sess=abc; Path=/; HttpOnly']);
+});
+
+t.test('HttpFetch converts streams', async t => {
+  const res = await adapter.fetch(new Request('http://localhost/stream'));
+  t.equal(await res.text(), 'abc');
+});
+
+t.test('HttpFetch responds without body for HEAD and not found', async t => {
+  const head = await adapter.fetch(new Request('http://localhost/hello', { method: 'HEAD' }));
+  t.equal(head.status, 200);
+  t.equal(head.body, null);
+
+  const missing = await adapter.fetch(new Request('http://localhost/missing'));
+  t.equal(missing.status, 404);
+});
+
+t.test('HttpFetch responds 500 when response cannot be serialized', async t => {
+  const res = await adapter.fetch(new Request('http://localhost/unserializable'));
+  t.equal(res.status, 500);
+  t.equal(await res.text(), 'Internal Server Error');
+});
+
+t.test('HttpFetch requires web globals', async t => {
+  const getSetCookie = Headers.prototype.getSetCookie;
+  t.teardown(() => {
+    Headers.prototype.getSetCookie = getSetCookie;
+  });
+  (Headers.prototype as any).getSetCookie = undefined;
+  t.throws(() => new HttpFetch().callback(), /HttpFetch requires Headers.prototype.getSetCookie, not available in node/);
+
+  const request = globalThis.Request;
+  t.teardown(() => {
+    globalThis.Request = request;
+  });
+  (globalThis as any).Request = undefined;
+  t.throws(() => new HttpFetch(), /HttpFetch requires global Request, Response and Headers/);
+});
+
+t.test('HttpFetch listens with node:http', async t => {
+  const server = adapter.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  t.teardown(() => {
+    server.close();
+  });
+  const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/session`);
+  t.same(await res.json(), { prev: null });
+  t.match(res.headers.get('set-cookie'), /^sess=abc/);
+});
@@ -0,0 +1,211 @@
+import { createServer, IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
+import { PassThrough, Readable, pipeline as pipe } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { TLSSocket } from 'node:tls';
+
+import { HttpBaseContext, httpDisconnectSignal } from './base.js';
+import { composeAsync } from '../support/compose.js';
+
+export type HttpFetchMiddlewareCallback = (ctx: HttpFetchContext, next: any) => Promise<any> | any;
+
+/**
+ * connection details not available on web request
+ */
+export interface IHttpFetchInfo {
+  remoteAddress?: string
+}
+
+/**
+ * fail early on runtimes without web globals, e.g. node 16
+ * @param feature
+ * @param available
+ */
+function assertFetchSupport(feature: string, available: boolean) {
+  if (!available) {
+    throw new Error(`HttpFetch requires ${feature}, not available in node ${process.versions.node}.`);
+  }
+}
+
+/**
+ * WHATWG fetch adapter, exposes http app as `(request: Request) => Promise<Response>`
+ */
+export class HttpFetch {
+  protected middlewares: HttpFetchMiddlewareCallback[] = [];
+  protected composed: ((ctx: HttpFetchContext, next: any) => Promise<any>) | null = null;
+
+  constructor() {
+    assertFetchSupport('global Request, Response and Headers', typeof Request == 'function' && typeof Response == 'function' && typeof Headers == 'function');
+  }
+
+  use(fn: HttpFetchMiddlewareCallback) {
+    this.middlewares.push(fn);
+    return this;
+  }
+
+  handler(fn: any) {
+    this.composed = composeAsync<HttpFetchContext>([...this.middlewares, fn]);
+  }
+
+  /**
+   * handle web request, bound to instance so it can be handed over as is
+   * @param request
+   * @param info
+   * @returns {Promise<Response>}
+   */
+  fetch = async (request: Request, info: IHttpFetchInfo = {}): Promise<Response> => {
+    if (!this.composed) {
+      throw new Error('Http fetch handler is not set.');
+    }
+    const ctx = new HttpFetchContext(request, info);
+    try {
+      await this.composed(ctx, async () => { });
+      // serialization errors are server errors too
+      return ctx.toResponse();
+    } catch (err: any) {
+      console.error(err);
+      return new Response('Internal Server Error', {
+        status: 500,
+        headers: { 'content-type': 'text/plain; charset=utf-8' },
+      });
+    }
+  }
+
+  /**
+   * request listener serving fetch handler, for node:http, https and http2 servers
+   * @returns {RequestListener}
+   */
+  callback(): RequestListener {
+    assertFetchSupport('Headers.prototype.getSetCookie', typeof Headers.prototype.getSetCookie == 'function');
+    return async (req: IncomingMessage, res: ServerResponse) => {
+      try {
+        const response = await this.fetch(toWebRequest(req, httpDisconnectSignal(res)), { remoteAddress: req.socket.remoteAddress });
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => {
+          if (key != 'set-cookie') {
+            res.setHeader(key, value);
+          }
+        });
+        const cookies = response.headers.getSetCookie();
+        if (cookies.length) {
+          res.setHeader('set-cookie', cookies);
+        }
+        if (!response.body) {
+          res.end();
+          return;
+        }
+        await pipeline(Readable.fromWeb(response.body as any), res);
+      } catch (err: any) {
+        console.error(err);
+        res.destroy();
+      }
+    };
+  }
+
+  /**
+   * serve fetch handler with node:http
+   * @param args
+   * @returns {Server}
+   */
+  listen(...args: any): Server {
+    return createServer(this.callback()).listen(...args);
+  }
+}
+
+function toWebRequest(req: IncomingMessage, signal: AbortSignal) {
+  const headers = new Headers();
+  for (const key in req.headers) {
+    if (key[0] == ':') {
+      // http2 pseudo headers are not valid header names
+      continue;
+    }
+    const value = req.headers[key];
+    if (Array.isArray(value)) {
+      value.forEach(v => headers.append(key, v));
+    } else if (typeof value == 'string') {
+      headers.set(key, value);
+    }
+  }
+  const hasBody = req.method != 'GET' && req.method != 'HEAD';
+  const protocol = req.socket instanceof TLSSocket ? 'https' : 'http';
+  const host = req.headers.host || req.headers[':authority'] || 'localhost';
+  return new Request(`${protocol}://${host}${req.url}`, {
+    method: req.method,
+    headers,
+    signal,
+    body: hasBody ? Readable.toWeb(req) as any : undefined,
+    // required by node when body is a stream
+    duplex: 'half',
+  } as RequestInit);
+}
+
+export class HttpFetchContext extends HttpBaseContext {
+  constructor(readonly request: Request, readonly info: IHttpFetchInfo = {}) {
+    super(toHeaderRecord(request.headers), request.signal);
+  }
+
+  get method() {
+    return this.request.method;
+  }
+
+  protected get rawUrl() {
+    // absolute url, base is ignored
+    return this.request.url;
+  }
+
+  protected get remoteAddress() {
+    return this.info.remoteAddress || '';
+  }
+
+  protected get encrypted() {
+    return this.request.url.startsWith('https:');
+  }
+
+  protected get requestHost() {
+    return super.requestHost || new URL(this.request.url).host;
+  }
+
+  requestStream() {
+    if (!this.request.body) {
+      return Readable.from([]);
+    }
+    return Readable.fromWeb(this.request.body as any);
+  }
+
+  /**
+   * create web response
+   * @returns {Response}
+   */
+  toResponse() {
+    const payload = this.payload();
+    const headers = new Headers();
+    for (const key in payload.headers) {
+      const value = payload.headers[key];
+      if (Array.isArray(value)) {
+        value.forEach(v => headers.append(key, v));
+      } else {
+        headers.set(key, value);
+      }
+    }
+    let body: any = payload.body;
+    if (this.method == 'HEAD') {
+      if (body instanceof Readable) {
+        body.destroy();
+      }
+      body = null;
+    } else if (body instanceof Readable) {
+      // web streams accept only bytes, object mode streams are converted by passthrough
+      const bytes = new PassThrough();
+      pipe(body, bytes, () => { });
+      body = Readable.toWeb(bytes);
+    }
+    return new Response(body, { status: payload.status, headers });
+  }
+}
+
+function toHeaderRecord(headers: Headers) {
+  const record: Record<string, string | string[]> = {};
+  headers.forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
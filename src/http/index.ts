@@ -1,6 +1,29 @@
+export * from './accesslog.js';
 export * from './app.js';
+export * from './base.js';
+export * from './body.js';
+export * from './cluster.js';
+export * from './compress.js';
+export * from './conditional.js';
 export * from './consts.js';
 export * from './context.js';
 export * from './cors.js';
+export * from './correlation.js';
+export * from './csrf.js';
+export * from './error.js';
+export * from './express.js';
+export * from './fetch.js';
 export * from './koa.js';
+export * from './listen.js';
+export * from './metrics.js';
+export * from './multipart.js';
+export * from './negotiate.js';
+export * from './node.js';
+export * from './proxy.js';
+export * from './ratelimit.js';
+export * from './security.js';
+export * from './sse.js';
+export * from './timeout.js';
+export * from './view.js';
+export * from './ws.js';
 export * from './router/index.js';
\ No newline at end of file
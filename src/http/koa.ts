@@ -1,16 +1,21 @@
-import { Server } from 'node:http';
+import { RequestListener, Server } from 'node:http';
 import * as internal from 'node:stream';
 
 import { HttpRequestHeaders, HttpRequestQuery, IHttpContext, IHttpCookies } from './context.js';
-import { IViewEngine } from './view.js';
-import { HTTP_KEY_VIEW_PROVIDER } from './consts.js';
+import { IViewEngine, viewData } from './view.js';
+import { HTTP_KEY_ERROR_FORMAT, HTTP_KEY_REQ_ID, HTTP_KEY_VIEW_PROVIDER } from './consts.js';
+import { HTTP_PROBLEM_CONTENT_TYPE, HttpErrorFormat, httpAbortBody } from './error.js';
 import { IHttpError, IHttpResponse } from './response.js';
+import { httpDisconnectSignal } from './base.js';
+import { HttpSse, IHttpSseOpts } from './sse.js';
+import { IHttpForwarded, httpForwarded } from './proxy.js';
 
 export type HttpKoaMiddlewareCallback = (ctx: any, next: any) => Promise<any> | any
 
 export interface IHttpKoa {
   listen(...args: any): Server
   use(fn: HttpKoaMiddlewareCallback): IHttpKoa
+  callback(): RequestListener
 }
 
 export class HttpKoa {
@@ -32,6 +37,14 @@ export class HttpKoa {
   listen(...args: any) {
     return this.app.listen(...args);
   }
+
+  /**
+   * koa request listener, for https and http2 servers
+   * @returns {RequestListener}
+   */
+  callback() {
+    return this.app.callback();
+  }
 }
 
 export class HttpKoaContext implements IHttpContext {
@@ -42,22 +55,39 @@ export class HttpKoaContext implements IHttpContext {
   params = {};
   willRender = false;
   state: Record<any, any> = {};
-  response: IHttpResponse<any> = { status: 404 };
+  response: IHttpResponse<any>;
   aborted = false;
+  signal: AbortSignal;
   protected _reply: IHttpResponse | null = null;
+  // mirror of headers set through context, koa keeps its own copy
+  protected _headers: Record<string, string | string[]> = {};
 
   constructor(protected ctx: any) {
+    this.response = { status: 404, headers: this._headers };
     this.query = new HttpRequestQuery(ctx.query);
     this.headers = new HttpRequestHeaders(
       ctx.headers,
       (k: string, v: string | string[]) => {
-        ctx.set(k, v);
+        this.setHeader(k, v);
       });
     this.cookies = ctx.cookies as any;
+    this.signal = httpDisconnectSignal(ctx.res);
+  }
+
+  /**
+   * request as seen by trusted proxies, null when app trusts no proxy and koa settings apply
+   */
+  protected get forwarded(): IHttpForwarded | null {
+    const req = this.ctx.req;
+    return httpForwarded(this, {
+      address: req.socket?.remoteAddress || '',
+      encrypted: !!req.socket?.encrypted,
+      host: req.headers['host'] || req.headers[':authority'] || '',
+    });
   }
 
   get host() {
-    return this.ctx.request.host as string;
+    return this.forwarded?.host ?? this.ctx.request.host as string;
   }
 
   get path() {
@@ -69,41 +99,50 @@ export class HttpKoaContext implements IHttpContext {
   }
 
   get url() {
-    return this.ctx.request.URL as URL;
+    return this.forwarded ? new URL(this.ctx.request.originalUrl, this.origin) : this.ctx.request.URL as URL;
   }
 
   get href() {
-    return this.ctx.request.href as string;
+    return this.forwarded ? this.url.href : this.ctx.request.href as string;
   }
 
   get origin() {
-    return this.ctx.request.origin as string;
+    const forwarded = this.forwarded;
+    return forwarded ? `${forwarded.protocol}://${forwarded.host}` : this.ctx.request.origin as string;
   }
 
   get protocol() {
-    return this.ctx.request.protocol as string;
+    return this.forwarded?.protocol ?? this.ctx.request.protocol as string;
   }
 
   get secure() {
-    return this.ctx.request.secure as boolean;
+    return this.protocol == 'https';
   }
 
   get ip() {
-    return this.ctx.request.ip as string;
+    return this.forwarded?.ip ?? this.ctx.request.ip as string;
   }
 
   get ips() {
-    return this.ctx.request.ips as string[];
+    return this.forwarded?.ips ?? this.ctx.request.ips as string[];
   }
 
   get body() {
     return this.ctx.request.body;
   }
 
+  set body(body: any) {
+    this.ctx.request.body = body;
+  }
+
   get files() {
     return this.ctx.request.files || {};
   }
 
+  set files(files: any) {
+    this.ctx.request.files = files;
+  }
+
   is(...types: string[]): string | null | false {
     return this.ctx.request.is(...types);
   }
@@ -116,6 +155,11 @@ export class HttpKoaContext implements IHttpContext {
     return this.ctx.request.header(key);
   }
 
+  setHeader(key: string, value: string | string[]) {
+    this.ctx.set(key, value);
+    this._headers[key.toLowerCase()] = value;
+  }
+
   json(data: any, status = 200) {
     this.headers.set('content-type', 'application/json');
     this.ctx.status = this.response.status = status;
@@ -140,30 +184,34 @@ export class HttpKoaContext implements IHttpContext {
   abort(status: number, message?: string): void;
   abort(...args: any): void {
     this.aborted = true;
-    if (args.length == 1) {
-      if (typeof args[0] == 'number') {
-        this.ctx.status = this.response.status = args[0];
-        this.ctx.body = this.response.body = {};
-        return;
-      }
-
+    let status: number;
+    let message: string | undefined;
+    let data: any;
+    if (args.length == 1 && typeof args[0] != 'number') {
       const err = args[0] as IHttpError
-      this.ctx.status = this.response.status = err.status;
-      const message = err.expose ? err.message : HttpKoaContext.defaultAbortMessage;
-      this.ctx.body = this.response.body = { message, ...(err.data || {}) };
-      return
+      status = err.status;
+      message = err.expose ? err.message : HttpKoaContext.defaultAbortMessage;
+      data = err.data;
+    } else {
+      status = args[0];
+      message = args.length == 1 ? undefined : args[1] || HttpKoaContext.defaultAbortMessage;
+      data = args[2];
+    }
+    const format = this.value<HttpErrorFormat>(HTTP_KEY_ERROR_FORMAT);
+    this.ctx.status = this.response.status = status;
+    this.ctx.body = this.response.body = httpAbortBody(format, status, message, data, this.value(HTTP_KEY_REQ_ID));
+    if (format == 'problem') {
+      this.setHeader('content-type', HTTP_PROBLEM_CONTENT_TYPE);
     }
-    this.ctx.status = this.response.status = args[0];
-    this.ctx.body = this.response.body = { message: args[1] || HttpKoaContext.defaultAbortMessage, ...(args[2] || {}) };
   }
 
   reply(response: IHttpResponse) {
-    this.response = response;
     if (response.headers) {
       for (const key in response.headers) {
-        this.ctx.set(key, response.headers[key]);
+        this.setHeader(key, response.headers[key]);
       }
     }
+    this.response = { ...response, headers: this._headers };
     this.ctx.status = response.status;
     this.ctx.body = response.body;
   }
@@ -171,9 +219,21 @@ export class HttpKoaContext implements IHttpContext {
   stream(stream: internal.Readable, mime: string = 'application/octet-stream') {
     this.ctx.status = this.response.status = 200;
     this.ctx.type = mime;
+    this._headers['content-type'] = this.ctx.response.get('content-type');
     this.ctx.body = this.response.body = stream;
   }
 
+  sse(opts: Partial<IHttpSseOpts> = {}) {
+    // long lived response, socket must not time out or batch small writes
+    this.ctx.req.socket.setTimeout(0);
+    this.ctx.req.socket.setNoDelay(true);
+    return new HttpSse(this, opts);
+  }
+
+  requestStream() {
+    return this.ctx.req as internal.Readable;
+  }
+
   redirect(url: string, alt?: string) {
     if ((process as any).env.APP_PREFIX) {
       if (url[0] != '/') {
@@ -190,8 +250,7 @@ export class HttpKoaContext implements IHttpContext {
       throw new Error('view engine is not set.');
     }
     this.ctx.status = this.response.status = status;
-    this.response.body = { template, data };
-    this.ctx.body = await view.render(this, template, data);
+    this.ctx.body = this.response.body = await view.render(this, template, viewData(this, data));
     this.willRender = true;
   }
 
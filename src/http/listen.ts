@@ -0,0 +1,128 @@
+import * as fs from 'node:fs';
+import { RequestListener, Server, createServer } from 'node:http';
+import * as http2 from 'node:http2';
+import * as https from 'node:https';
+
+export type HttpListenScheme = 'http' | 'https' | 'h2';
+
+export type HttpAppServer = Server | https.Server | http2.Http2SecureServer;
+
+export interface IHttpListenAddress {
+  /**
+   * `h2` serves HTTP/2 over TLS, HTTP/1 clients are served on same port via ALPN
+   */
+  scheme: HttpListenScheme
+  host: string
+  port: number
+}
+
+export interface IHttpTlsOpts {
+  cert: string | Buffer
+  key: string | Buffer
+  ca?: string | Buffer
+  passphrase?: string
+}
+
+interface IHttpListenConf {
+  var(key: any): string | undefined
+}
+
+const DEFAULT_PORTS: Record<HttpListenScheme, number> = { http: 80, https: 443, h2: 443 };
+
+/**
+ * PEM value as is, otherwise read from file path
+ * @param value
+ * @returns {string|Buffer}
+ */
+function pem(value: string): string | Buffer {
+  if (value.includes('-----BEGIN ')) {
+    // inline values from env files often carry escaped newlines
+    return value.replace(/\\n/g, '\n');
+  }
+  return fs.readFileSync(value);
+}
+
+/**
+ * TLS options from `APP_TLS_CERT`, `APP_TLS_KEY`, `APP_TLS_CA` and `APP_TLS_PASSPHRASE`,
+ * values are file paths or inline PEM
+ * @param conf
+ * @returns {IHttpTlsOpts|null}
+ */
+export function httpTlsOptions(conf: IHttpListenConf): IHttpTlsOpts | null {
+  const cert = conf.var('APP_TLS_CERT');
+  const key = conf.var('APP_TLS_KEY');
+  if (!cert && !key) {
+    return null;
+  }
+  if (!cert || !key) {
+    throw new Error('TLS requires both APP_TLS_CERT and APP_TLS_KEY.');
+  }
+  const ca = conf.var('APP_TLS_CA');
+  const passphrase = conf.var('APP_TLS_PASSPHRASE');
+  return {
+    cert: pem(cert),
+    key: pem(key),
+    ...(ca ? { ca: pem(ca) } : {}),
+    ...(passphrase ? { passphrase } : {}),
+  };
+}
+
+/**
+ * parse `[scheme://]host:port`, `:port` listens on default host
+ * @param value
+ * @param defaults
+ * @returns {IHttpListenAddress}
+ */
+export function parseListenAddress(value: string, defaults: { scheme: HttpListenScheme, host: string }): IHttpListenAddress {
+  let address = value.trim();
+  if (!address.includes('://')) {
+    address = `${defaults.scheme}://${address}`;
+  }
+  address = address.replace(/:\/\/:/, `://${defaults.host.includes(':') ? `[${defaults.host}]` : defaults.host}:`);
+  let url: URL;
+  try {
+    url = new URL(address);
+  } catch {
+    throw new Error(`Invalid listen address ${value}.`);
+  }
+  const scheme = url.protocol.slice(0, -1) as HttpListenScheme;
+  if (!(scheme in DEFAULT_PORTS)) {
+    throw new Error(`Unsupported listen scheme ${scheme} of ${value}, use http, https or h2.`);
+  }
+  return {
+    scheme,
+    // ipv6 hosts are bracketed in urls
+    host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+    port: url.port ? parseInt(url.port, 10) : DEFAULT_PORTS[scheme],
+  };
+}
+
+/**
+ * create server for address, listening is left to caller
+ * @param address
+ * @param listener
+ * @param tls
+ * @returns {HttpAppServer}
+ */
+export function createHttpAppServer(address: IHttpListenAddress, listener: RequestListener, tls: IHttpTlsOpts | null): HttpAppServer {
+  if (address.scheme == 'http') {
+    return createServer(listener);
+  }
+  if (!tls) {
+    throw new Error(`Listen address ${address.scheme}://${address.host}:${address.port} requires APP_TLS_CERT and APP_TLS_KEY.`);
+  }
+  if (address.scheme == 'h2') {
+    return http2.createSecureServer({ ...tls, allowHTTP1: true }, listener as any);
+  }
+  return https.createServer(tls, listener);
+}
+
+/**
+ * address in url form, e.g. `https://127.0.0.1:8443`
+ * @param address
+ * @returns {string}
+ */
+export function formatListenAddress(address: IHttpListenAddress) {
+  const host = address.host.includes(':') ? `[${address.host}]` : address.host;
+  return `${address.scheme}://${host}:${address.port}`;
+}
@@ -0,0 +1,141 @@
+import t from 'tap';
+
+import { HttpMetrics, HttpMetricsOpts, HttpMetricsRegistry } from './metrics.js';
+import { HttpRouter } from './router/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+class NotFoundError extends Error { }
+
+function createApp(opts: Partial<HttpMetricsOpts> = {}) {
+  const client = TestHttpApp();
+  const app = client.app;
+  const metrics = new HttpMetrics(opts);
+  app.use(metrics.handle.bind(metrics));
+  const router = new HttpRouter();
+  router.get('/users/:id', async ctx => {
+    ctx.json({ id: ctx.params['id'] });
+  }).as('users.show');
+  router.get('/posts/:id', async ctx => {
+    ctx.abort({ status: 403, message: 'Forbidden', expose: true });
+  });
+  router.get('/fail', async () => {
+    throw new Error('failed');
+  });
+  router.get('/gone', async () => {
+    throw new NotFoundError('gone');
+  });
+  app.router(router);
+  app.mapError(NotFoundError, { status: 404 });
+  return { client, metrics };
+}
+
+t.test('metrics records requests by route name', async t => {
+  const { client, metrics } = createApp({ buckets: [0.5, 1] });
+  await client.fetch(new Request('http://localhost/users/1'));
+  await client.fetch(new Request('http://localhost/users/2'));
+  await client.fetch(new Request('http://localhost/posts/1'));
+  await client.fetch(new Request('http://localhost/fail'));
+  await client.fetch(new Request('http://localhost/missing/1'));
+  await client.fetch(new Request('http://localhost/gone'));
+
+  t.equal(metrics.requests.value({ method: 'GET', status: 200, route: 'users.show' }), 2);
+  t.equal(metrics.requests.value({ method: 'GET', status: 403, route: '/posts/:id' }), 1, 'pattern is used for unnamed routes');
+  t.equal(metrics.requests.value({ method: 'GET', status: 500, route: '/fail' }), 1, 'thrown errors are recorded');
+  t.equal(metrics.requests.value({ method: 'GET', status: 404, route: 'unmatched' }), 1);
+  t.equal(metrics.requests.value({ method: 'GET', status: 404, route: '/gone' }), 1, 'mapped errors are recorded with mapped status');
+  t.equal(metrics.inFlight.value({ method: 'GET' }), 0);
+  const duration = metrics.duration.value({ method: 'GET', status: 200, route: 'users.show' });
+  t.equal(duration.count, 2);
+  t.same(duration.buckets, [2, 0]);
+
+  const res = await client.fetch(new Request('http://localhost/metrics'));
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('content-type'), 'text/plain; version=0.0.4; charset=utf-8');
+  const text = await res.text();
+  t.match(text, '# HELP http_requests_total Total number of http requests\n# TYPE http_requests_total counter\n');
+  t.match(text, 'http_requests_total{method="GET",status="200",route="users.show"} 2\n');
+  t.match(text, 'http_requests_in_flight{method="GET"} 0\n');
+  t.match(text, '# TYPE http_request_duration_seconds histogram\n');
+  t.match(text, 'http_request_duration_seconds_bucket{method="GET",status="200",route="users.show",le="0.5"} 2\n');
+  t.match(text, 'http_request_duration_seconds_bucket{method="GET",status="200",route="users.show",le="+Inf"} 2\n');
+  t.match(text, /http_request_duration_seconds_sum\{method="GET",status="200",route="users.show"\} [\d.e-]+\n/);
+  t.match(text, 'http_request_duration_seconds_count{method="GET",status="200",route="users.show"} 2\n');
+  t.notMatch(text, '/metrics', 'exposition requests are not recorded');
+  t.notMatch(text, 'users/1', 'raw paths are not used as labels');
+});
+
+t.test('metrics endpoint path is configurable', async t => {
+  const { client } = createApp({ path: '/_/metrics', prefix: 'api_' });
+  t.equal((await client.fetch(new Request('http://localhost/metrics'))).status, 404);
+  const res = await client.fetch(new Request('http://localhost/_/metrics'));
+  t.match(await res.text(), 'api_requests_total{method="GET",status="404",route="unmatched"} 1\n');
+
+  const disabled = createApp({ path: false });
+  t.equal((await disabled.client.fetch(new Request('http://localhost/metrics'))).status, 404);
+});
+
+t.test('registry exposes custom metrics', async t => {
+  const registry = new HttpMetricsRegistry();
+  const jobs = registry.counter({ name: 'app_jobs_total', help: 'Processed jobs', labels: ['queue'] });
+  jobs.inc({ queue: 'mail' });
+  jobs.inc({ queue: 'mail' }, 2);
+  jobs.inc({ queue: 'say "hi"\n' });
+  t.equal(registry.counter({ name: 'app_jobs_total', help: 'Processed jobs' }), jobs, 'registered metric is reused');
+  t.throws(() => registry.gauge({ name: 'app_jobs_total', help: '' }), /already registered as counter/);
+  t.throws(() => jobs.inc({ queue: 'mail' }, -1), /can only increase/);
+  t.throws(() => jobs.inc({ unknown: 'x' }), /Unknown label unknown/);
+  t.throws(() => registry.counter({ name: 'app-jobs', help: '' }), /Invalid metric name/);
+
+  const queue = registry.gauge({ name: 'app_queue_size', help: 'Queued jobs' });
+  queue.set({}, 5);
+  queue.dec();
+
+  const latency = registry.histogram({ name: 'app_job_seconds', help: 'Job latency', buckets: [1, 0.1] });
+  latency.observe({}, 0.05);
+  latency.observe({}, 0.5);
+  latency.observe({}, 3);
+
+  t.equal(registry.expose(), [
+    '# HELP app_jobs_total Processed jobs',
+    '# TYPE app_jobs_total counter',
+    'app_jobs_total{queue="mail"} 3',
+    'app_jobs_total{queue="say \\"hi\\"\\n"} 1',
+    '# HELP app_queue_size Queued jobs',
+    '# TYPE app_queue_size gauge',
+    'app_queue_size 4',
+    '# HELP app_job_seconds Job latency',
+    '# TYPE app_job_seconds histogram',
+    'app_job_seconds_bucket{le="0.1"} 1',
+    'app_job_seconds_bucket{le="1"} 2',
+    'app_job_seconds_bucket{le="+Inf"} 3',
+    'app_job_seconds_sum 3.55',
+    'app_job_seconds_count 3',
+    '',
+  ].join('\n'));
+
+  registry.reset();
+  t.equal(jobs.value({ queue: 'mail' }), 0);
+  t.ok(registry.remove('app_queue_size'));
+  t.notOk(registry.get('app_queue_size'));
+});
+
+t.test('metrics shares registry with app metrics', async t => {
+  const registry = new HttpMetricsRegistry();
+  const client = TestHttpApp();
+  const app = client.app;
+  const metrics = new HttpMetrics({ registry, path: false });
+  app.use(metrics.handle.bind(metrics));
+  const signups = registry.counter({ name: 'app_signups_total', help: 'Signups' });
+  const router = new HttpRouter();
+  router.post('/signup', async ctx => {
+    signups.inc();
+    ctx.json({ ok: true }, 201);
+  });
+  router.get('/internal/metrics', async ctx => metrics.expose(ctx));
+  app.router(router);
+
+  await client.fetch(new Request('http://localhost/signup', { method: 'POST' }));
+  const text = await (await client.fetch(new Request('http://localhost/internal/metrics'))).text();
+  t.match(text, 'http_requests_total{method="POST",status="201",route="/signup"} 1\n');
+  t.match(text, 'app_signups_total 1\n');
+});
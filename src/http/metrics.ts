@@ -0,0 +1,405 @@
+import { IHttpContext } from './context.js';
+import { HTTP_KEY_ROUTE } from './consts.js';
+import { httpErrorStatus } from './error.js';
+import { HttpRoute } from './router/route.js';
+
+export const HTTP_METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type HttpMetricLabels = Record<string, string | number>;
+
+export type HttpMetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface IHttpMetricOpts {
+  name: string
+  help: string
+  /**
+   * label names, values not listed here are rejected
+   */
+  labels?: string[]
+}
+
+export interface IHttpHistogramOpts extends IHttpMetricOpts {
+  /**
+   * upper bounds of buckets, `+Inf` is added
+   */
+  buckets?: number[]
+}
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export const HTTP_METRICS_DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number) {
+  if (value == Infinity) {
+    return '+Inf';
+  }
+  if (value == -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+/**
+ * base of metrics, series are kept per distinct label values
+ */
+export abstract class HttpMetric<T = number> {
+  abstract readonly type: HttpMetricType;
+  readonly name: string;
+  readonly help: string;
+  readonly labels: string[];
+  protected series = new Map<string, { labels: HttpMetricLabels, value: T }>();
+
+  constructor(opts: IHttpMetricOpts) {
+    if (!METRIC_NAME.test(opts.name)) {
+      throw new Error(`Invalid metric name ${opts.name}`);
+    }
+    for (const label of opts.labels || []) {
+      if (!LABEL_NAME.test(label) || label.startsWith('__')) {
+        throw new Error(`Invalid label name ${label} of metric ${opts.name}`);
+      }
+    }
+    this.name = opts.name;
+    this.help = opts.help;
+    this.labels = opts.labels || [];
+  }
+
+  protected abstract initial(): T;
+
+  protected key(labels: HttpMetricLabels) {
+    for (const key in labels) {
+      if (!this.labels.includes(key)) {
+        throw new Error(`Unknown label ${key} of metric ${this.name}`);
+      }
+    }
+    return JSON.stringify(this.labels.map(label => String(labels[label] ?? '')));
+  }
+
+  protected get(labels: HttpMetricLabels) {
+    const key = this.key(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * value of series, initial value when series wasn't recorded
+   * @param labels
+   * @returns {T}
+   */
+  value(labels: HttpMetricLabels = {}): T {
+    return this.series.get(this.key(labels))?.value ?? this.initial();
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  protected formatLabels(labels: HttpMetricLabels, extra: HttpMetricLabels = {}) {
+    const pairs = [...this.labels, ...Object.keys(extra)]
+      .map(label => [label, label in extra ? extra[label] : labels[label]] as const)
+      .filter(([, value]) => typeof value != 'undefined')
+      .map(([label, value]) => `${label}="${escapeLabel(String(value))}"`);
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+  }
+
+  protected abstract samples(): string[];
+
+  /**
+   * metric in text exposition format
+   * @returns {string}
+   */
+  expose() {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join('\n');
+  }
+}
+
+export class HttpMetricCounter extends HttpMetric {
+  readonly type = 'counter';
+
+  protected initial() {
+    return 0;
+  }
+
+  inc(labels: HttpMetricLabels = {}, value = 1) {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can only increase`);
+    }
+    this.get(labels).value += value;
+  }
+
+  protected samples() {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class HttpMetricGauge extends HttpMetric {
+  readonly type = 'gauge';
+
+  protected initial() {
+    return 0;
+  }
+
+  set(labels: HttpMetricLabels, value: number) {
+    this.get(labels).value = value;
+  }
+
+  inc(labels: HttpMetricLabels = {}, value = 1) {
+    this.get(labels).value += value;
+  }
+
+  dec(labels: HttpMetricLabels = {}, value = 1) {
+    this.get(labels).value -= value;
+  }
+
+  protected samples() {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${this.formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class HttpMetricHistogram extends HttpMetric<{ buckets: number[], sum: number, count: number }> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(opts: IHttpHistogramOpts) {
+    super(opts);
+    if (this.labels.includes('le')) {
+      throw new Error(`Label le is reserved for buckets of histogram ${this.name}`);
+    }
+    this.buckets = [...(opts.buckets || HTTP_METRICS_DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  protected initial() {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: HttpMetricLabels, value: number) {
+    const entry = this.get(labels).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index > -1) {
+      entry.buckets[index]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * start timer, returned function observes elapsed seconds
+   * @param labels
+   * @returns {(labels?: HttpMetricLabels) => number}
+   */
+  startTimer(labels: HttpMetricLabels = {}) {
+    const started = process.hrtime.bigint();
+    return (more: HttpMetricLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      this.observe({ ...labels, ...more }, seconds);
+      return seconds;
+    };
+  }
+
+  value(labels: HttpMetricLabels = {}) {
+    const { buckets, sum, count } = super.value(labels);
+    return { buckets: [...buckets], sum, count };
+  }
+
+  protected samples() {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      // buckets are cumulative in exposition format
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += value.buckets[i];
+        lines.push(`${this.name}_bucket${this.formatLabels(labels, { le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(labels, { le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${this.formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Registry of metrics, registering existing name returns registered metric of same type
+ *
+ * @example
+ * ```ts
+ * const jobs = registry.counter({ name: 'app_jobs_total', help: 'Processed jobs', labels: ['queue'] });
+ * jobs.inc({ queue: 'mail' });
+ * ```
+ */
+export class HttpMetricsRegistry {
+  protected metrics = new Map<string, HttpMetric<any>>();
+
+  counter(opts: IHttpMetricOpts): HttpMetricCounter {
+    return this.register(opts, HttpMetricCounter);
+  }
+
+  gauge(opts: IHttpMetricOpts): HttpMetricGauge {
+    return this.register(opts, HttpMetricGauge);
+  }
+
+  histogram(opts: IHttpHistogramOpts): HttpMetricHistogram {
+    return this.register(opts, HttpMetricHistogram);
+  }
+
+  get(name: string) {
+    return this.metrics.get(name);
+  }
+
+  remove(name: string) {
+    return this.metrics.delete(name);
+  }
+
+  /**
+   * clear values of all metrics, metrics stay registered
+   */
+  reset() {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  /**
+   * all metrics in prometheus text exposition format
+   * @returns {string}
+   */
+  expose() {
+    const metrics = [...this.metrics.values()].map(metric => metric.expose());
+    return metrics.length ? `${metrics.join('\n')}\n` : '';
+  }
+
+  protected register<T extends HttpMetric<any>, O extends IHttpMetricOpts>(opts: O, type: new (opts: O) => T): T {
+    const existing = this.metrics.get(opts.name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${opts.name} is already registered as ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = new type(opts);
+    this.metrics.set(opts.name, metric);
+    return metric;
+  }
+}
+
+export interface HttpMetricsOpts {
+  registry: HttpMetricsRegistry
+  /**
+   * path of exposition endpoint, `false` to serve it with `metrics.expose` on a route
+   */
+  path: string | false
+  /**
+   * prefix of request metric names
+   */
+  prefix: string
+  /**
+   * latency buckets in seconds
+   */
+  buckets: number[]
+  /**
+   * route label of requests without matched route
+   */
+  unmatched: string
+}
+
+const defaultOptions = {
+  path: '/metrics',
+  prefix: 'http_',
+  buckets: HTTP_METRICS_DEFAULT_BUCKETS,
+  unmatched: 'unmatched',
+};
+
+/**
+ * Metrics middleware, records request count, in-flight requests and latency labelled by
+ * method, status and route name. Route name defaults to route pattern, raw paths are never
+ * used as label. Streamed responses are timed until headers are sent.
+ */
+export class HttpMetrics {
+  opts: HttpMetricsOpts;
+  readonly requests: HttpMetricCounter;
+  readonly inFlight: HttpMetricGauge;
+  readonly duration: HttpMetricHistogram;
+
+  constructor(opts: Partial<HttpMetricsOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts, registry: opts.registry || new HttpMetricsRegistry() };
+    const { registry, prefix } = this.opts;
+    this.requests = registry.counter({
+      name: `${prefix}requests_total`,
+      help: 'Total number of http requests',
+      labels: ['method', 'status', 'route'],
+    });
+    this.inFlight = registry.gauge({
+      name: `${prefix}requests_in_flight`,
+      help: 'Number of http requests being handled',
+      labels: ['method'],
+    });
+    this.duration = registry.histogram({
+      name: `${prefix}request_duration_seconds`,
+      help: 'Duration of http requests in seconds',
+      labels: ['method', 'status', 'route'],
+      buckets: this.opts.buckets,
+    });
+  }
+
+  get registry() {
+    return this.opts.registry;
+  }
+
+  static middleware(opts: Partial<HttpMetricsOpts> = {}) {
+    const metrics = new HttpMetrics(opts);
+    return metrics.handle.bind(metrics);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    const method = ctx.method.toUpperCase();
+    if (this.opts.path && ctx.path == this.opts.path && (method == 'GET' || method == 'HEAD')) {
+      this.expose(ctx);
+      return;
+    }
+
+    this.inFlight.inc({ method });
+    const end = this.duration.startTimer({ method });
+    let status = 500;
+    try {
+      await next();
+      status = ctx.response.status;
+    } catch (err: any) {
+      status = httpErrorStatus(ctx, err);
+      throw err;
+    } finally {
+      const route = ctx.value<HttpRoute | null>(HTTP_KEY_ROUTE);
+      const labels = { status, route: route ? route.name : this.opts.unmatched };
+      end(labels);
+      this.requests.inc({ method, ...labels });
+      this.inFlight.dec({ method });
+    }
+  }
+
+  /**
+   * respond metrics of registry, can be used as route handler
+   * @param ctx
+   */
+  expose(ctx: IHttpContext) {
+    ctx.reply({
+      status: 200,
+      body: this.opts.registry.expose(),
+      headers: { 'content-type': HTTP_METRICS_CONTENT_TYPE, 'cache-control': 'no-store' },
+    });
+  }
+}
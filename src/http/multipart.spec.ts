@@ -0,0 +1,183 @@
+import t from 'tap';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { HttpApp } from './app.js';
+import { IHttpFile } from './context.js';
+import { HttpMultipart } from './multipart.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+const uploaded: IHttpFile[] = [];
+
+function createRouter() {
+  const router = new HttpRouter();
+  router.post('/upload', async ctx => {
+    const files: Record<string, any> = {};
+    for (const [key, value] of Object.entries(ctx.files)) {
+      const list = Array.isArray(value) ? value : [value];
+      uploaded.push(...list);
+      files[key] = await Promise.all(list.map(async file => ({
+        originalName: file.originalName,
+        type: file.type,
+        size: file.size,
+        extension: file.extension,
+        content: (await readFile(file.path)).toString(),
+      })));
+    }
+    ctx.json({ body: ctx.body, files });
+  });
+  return router;
+}
+
+function createFetchApp(opts = {}) {
+  const client = TestHttpApp({ logErrors: false });
+  const app = client.app;
+  app.use(HttpMultipart.middleware(opts));
+  app.router(createRouter());
+  return client;
+}
+
+function upload(form: FormData) {
+  return new Request('http://localhost/upload', { method: 'POST', body: form });
+}
+
+t.test('HttpMultipart parses fields and files', async t => {
+  uploaded.length = 0;
+  const client = createFetchApp();
+  const form = new FormData();
+  form.append('name', 'astad');
+  form.append('tags', 'a');
+  form.append('tags', 'b');
+  form.append('avatar', new Blob(['png-data'], { type: 'image/png' }), 'me.png');
+  form.append('docs', new Blob(['one'], { type: 'text/plain' }), 'one.txt');
+  form.append('docs', new Blob(['two'], { type: 'text/plain' }), 'two.txt');
+
+  const res = await client.fetch(upload(form));
+  t.equal(res.status, 200);
+  t.same(await res.json(), {
+    body: { name: 'astad', tags: ['a', 'b'] },
+    files: {
+      avatar: [{ originalName: 'me.png', type: 'image/png', size: 8, extension: '.png', content: 'png-data' }],
+      docs: [
+        { originalName: 'one.txt', type: 'text/plain', size: 3, extension: '.txt', content: 'one' },
+        { originalName: 'two.txt', type: 'text/plain', size: 3, extension: '.txt', content: 'two' },
+      ],
+    },
+  });
+
+  t.equal(uploaded.length, 3);
+  t.ok(uploaded.every(file => !existsSync(file.path)), 'temporary files are removed after request');
+});
+
+t.test('HttpMultipart enforces limits and allowed types', async t => {
+  const client = createFetchApp({ fileSize: 8, totalSize: 12, maxFiles: 2, types: ['image/*'] });
+
+  let form = new FormData();
+  form.append('avatar', new Blob(['a'.repeat(9)], { type: 'image/png' }), 'big.png');
+  let res = await client.fetch(upload(form));
+  t.equal(res.status, 413, 'file size');
+
+  form = new FormData();
+  form.append('a', new Blob(['a'.repeat(8)], { type: 'image/png' }), 'a.png');
+  form.append('b', new Blob(['b'.repeat(8)], { type: 'image/png' }), 'b.png');
+  res = await client.fetch(upload(form));
+  t.equal(res.status, 413, 'total size');
+
+  form = new FormData();
+  form.append('a', new Blob(['a'], { type: 'image/png' }), 'a.png');
+  form.append('b', new Blob(['b'], { type: 'image/png' }), 'b.png');
+  form.append('c', new Blob(['c'], { type: 'image/png' }), 'c.png');
+  res = await client.fetch(upload(form));
+  t.equal(res.status, 413, 'file count');
+
+  form = new FormData();
+  form.append('doc', new Blob(['a'], { type: 'application/pdf' }), 'a.pdf');
+  res = await client.fetch(upload(form));
+  t.equal(res.status, 415);
+
+  res = await client.fetch(new Request('http://localhost/upload', {
+    method: 'POST',
+    body: '--x\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue',
+    headers: { 'content-type': 'multipart/form-data; boundary=x' },
+  }));
+  t.equal(res.status, 400, 'truncated body');
+});
+
+t.test('HttpMultipart skips empty file inputs', async t => {
+  uploaded.length = 0;
+  const client = createFetchApp({ maxFiles: 1, types: ['image/*'] });
+  const body = [
+    '--x',
+    'Content-Disposition: form-data; name="name"',
+    '',
+    'astad',
+    '--x',
+    'Content-Disposition: form-data; name="avatar"; filename=""',
+    'Content-Type: application/octet-stream',
+    '',
+    '',
+    '--x',
+    'Content-Disposition: form-data; name="photo"; filename="me.png"',
+    'Content-Type: image/png',
+    '',
+    'png-data',
+    '--x--',
+  ].join('\r\n');
+  const res = await client.fetch('/upload', { method: 'POST', body, headers: { 'content-type': 'multipart/form-data; boundary=x' } });
+  t.equal(res.status, 200);
+  const { body: fields, files } = await res.json();
+  t.same(fields, { name: 'astad' });
+  t.same(Object.keys(files), ['photo'], 'empty file input is neither a file nor a field');
+});
+
+t.test('HttpMultipart keeps moved files', async t => {
+  const dir = await mkdtemp(join(tmpdir(), 'astad-moved-'));
+  t.teardown(() => rm(dir, { recursive: true, force: true }));
+  const client = createFetchApp();
+  const router = new HttpRouter();
+  let tmpPath = '';
+  router.post('/move', async ctx => {
+    const file = ctx.files['doc'] as IHttpFile;
+    tmpPath = file.path;
+    await file.move(join(dir, 'doc.txt'));
+    ctx.json({ path: file.path });
+  });
+  client.app.router(router);
+
+  const form = new FormData();
+  form.append('doc', new Blob(['kept'], { type: 'text/plain' }), 'doc.txt');
+  const res = await client.fetch('/move', { method: 'POST', body: form });
+  t.same(await res.json(), { path: join(dir, 'doc.txt') });
+  t.equal(await readFile(join(dir, 'doc.txt'), 'utf8'), 'kept', 'moved file is not removed after request');
+  t.notOk(existsSync(tmpPath));
+});
+
+t.test('HttpMultipart streams large uploads with node adapter', async t => {
+  uploaded.length = 0;
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf, logErrors: false });
+  app.use(HttpMultipart.middleware({ fileSize: '1mb' }));
+  app.router(createRouter());
+  const server = await app.start();
+  t.teardown(() => app.close());
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/upload`;
+
+  let form = new FormData();
+  form.append('blob', new Blob([Buffer.alloc(512 * 1024, 'x')]), 'blob.bin');
+  let res = await fetch(url, { method: 'POST', body: form });
+  const json = await res.json();
+  t.equal(json.files.blob[0].size, 512 * 1024);
+  t.equal(json.files.blob[0].type, 'application/octet-stream');
+
+  form = new FormData();
+  form.append('blob', new Blob([Buffer.alloc(2 * 1024 * 1024, 'x')]), 'blob.bin');
+  res = await fetch(url, { method: 'POST', body: form });
+  t.equal(res.status, 413);
+  t.ok(uploaded.every(file => !existsSync(file.path)));
+});
@@ -0,0 +1,360 @@
+import { createReadStream, createWriteStream, WriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { once } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { IHttpContext, IHttpFile } from './context.js';
+import { isType } from './negotiate.js';
+import { bytes } from '../support/file.js';
+import { randomstr } from '../support/random.js';
+
+export interface HttpMultipartOpts {
+  /**
+   * max size of each file
+   */
+  fileSize: number | string
+  /**
+   * max size of all files in request
+   */
+  totalSize: number | string
+  /**
+   * max number of files
+   */
+  maxFiles: number
+  /**
+   * max size of each non file field
+   */
+  fieldSize: number | string
+  /**
+   * allowed file mime types, e.g. `image/*`, empty allows all
+   */
+  types: string[]
+  /**
+   * directory for temporary files
+   */
+  tmpdir: string
+}
+
+const defaultOptions = {
+  fileSize: '10mb',
+  totalSize: '50mb',
+  maxFiles: 10,
+  fieldSize: '1mb',
+  types: [],
+  tmpdir: os.tmpdir(),
+};
+
+// max size of part headers
+const HEADER_LIMIT = 16 * 1024;
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+/**
+ * uploaded file stored in temporary directory, removed after request unless moved
+ */
+export class HttpFile implements IHttpFile {
+  size = 0;
+  /**
+   * current location, destination once moved
+   */
+  path: string;
+
+  constructor(
+    readonly fieldName: string,
+    readonly originalName: string,
+    readonly type: string,
+    readonly tmpPath: string,
+  ) {
+    this.path = tmpPath;
+  }
+
+  get extension() {
+    return path.extname(this.originalName);
+  }
+
+  readStream() {
+    return createReadStream(this.path);
+  }
+
+  /**
+   * move file out of temporary directory, moved file is not removed after request
+   * @param dest
+   */
+  async move(dest: string) {
+    try {
+      await fs.rename(this.path, dest);
+    } catch (err: any) {
+      // rename fails across devices
+      if (err.code != 'EXDEV') {
+        throw err;
+      }
+      await fs.copyFile(this.path, dest);
+      await fs.rm(this.path, { force: true });
+    }
+    this.path = dest;
+  }
+
+  async remove() {
+    await fs.rm(this.path, { force: true });
+  }
+}
+
+interface IPartHeaders {
+  name: string
+  filename?: string
+  type: string
+}
+
+/**
+ * streaming multipart/form-data parser, files are written to temporary directory
+ * and exposed on ctx.files, fields are exposed on ctx.body
+ */
+export class HttpMultipart {
+  opts: HttpMultipartOpts;
+
+  constructor(opts: Partial<HttpMultipartOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+  }
+
+  static middleware(opts: Partial<HttpMultipartOpts> = {}) {
+    const multipart = new HttpMultipart(opts);
+    return multipart.handle.bind(multipart);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    if (typeof ctx.body != 'undefined' || !isType(ctx.headers.get('content-type'), ['multipart/form-data'])) {
+      return await next();
+    }
+
+    const files: HttpFile[] = [];
+    try {
+      const fields = await this.parse(ctx, files);
+      ctx.body = fields;
+      ctx.files = this.group(files);
+      return await next();
+    } finally {
+      // only temporary location is cleaned up, moved files are kept
+      await Promise.all(files.map(file => fs.rm(file.tmpPath, { force: true })));
+    }
+  }
+
+  protected boundary(ctx: IHttpContext) {
+    const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(ctx.headers.get('content-type') || '');
+    if (!match) {
+      ctx.throw(400, 'Missing multipart boundary');
+    }
+    return (match[1] || match[2]) as string;
+  }
+
+  /**
+   * parse request stream, written files are pushed to given list as soon as they are created
+   * @param ctx
+   * @param files
+   * @returns {Promise<Record<string, string | string[]>>}
+   */
+  protected async parse(ctx: IHttpContext, files: HttpFile[]) {
+    const boundary = this.boundary(ctx);
+    const fileSize = bytes(this.opts.fileSize);
+    const totalSize = bytes(this.opts.totalSize);
+    const fieldSize = bytes(this.opts.fieldSize);
+    // first boundary may not be preceded by CRLF, prepending it allows a single delimiter
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+    const fields: Record<string, string | string[]> = {};
+    const raw = ctx.requestStream();
+    // iterate over pass through, breaking iteration must not destroy request stream
+    const source = raw.pipe(new PassThrough());
+
+    let buf: Buffer = CRLF;
+    let state: 'preamble' | 'headers' | 'body' | 'end' = 'preamble';
+    let part: IPartHeaders | null = null;
+    let field: Buffer[] = [];
+    let fieldLength = 0;
+    let file: HttpFile | null = null;
+    let writer: WriteStream | null = null;
+    let total = 0;
+
+    const write = async (data: Buffer) => {
+      // data of skipped part is discarded
+      if (!data.length || !part) {
+        return;
+      }
+      if (file && writer) {
+        file.size += data.length;
+        total += data.length;
+        if (file.size > fileSize || total > totalSize) {
+          ctx.throw(413, 'Uploaded file too large');
+        }
+        if (!writer.write(data)) {
+          await once(writer, 'drain');
+        }
+        return;
+      }
+      fieldLength += data.length;
+      if (fieldLength > fieldSize) {
+        ctx.throw(413, 'Form field too large');
+      }
+      field.push(data);
+    };
+
+    const startPart = async (headers: string) => {
+      part = this.parseHeaders(ctx, headers);
+      if (typeof part.filename == 'undefined') {
+        field = [];
+        fieldLength = 0;
+        return;
+      }
+      if (!part.filename) {
+        // optional file input left empty, browsers send it without filename and content
+        part = null;
+        return;
+      }
+      if (files.length >= this.opts.maxFiles) {
+        ctx.throw(413, 'Too many files');
+      }
+      if (this.opts.types.length && !isType(part.type, this.opts.types)) {
+        ctx.throw(415, `File type "${part.type}" is not allowed`);
+      }
+      const tmpfile = path.join(this.opts.tmpdir, `astad-upload-${Date.now()}-${randomstr(12)}${path.extname(part.filename)}`);
+      file = new HttpFile(part.name, part.filename, part.type, tmpfile);
+      files.push(file);
+      writer = createWriteStream(tmpfile);
+      await once(writer, 'open');
+    };
+
+    const endPart = async () => {
+      if (!part) {
+        return;
+      }
+      if (file && writer) {
+        writer.end();
+        await once(writer, 'finish');
+      } else {
+        this.append(fields, part.name, Buffer.concat(field).toString('utf-8'));
+      }
+      part = null;
+      file = null;
+      writer = null;
+    };
+
+    try {
+      for await (const chunk of source) {
+        if (state == 'end') {
+          // ignore epilogue
+          continue;
+        }
+        buf = Buffer.concat([buf, chunk]);
+        while (state != 'end') {
+          if (state == 'headers') {
+            const idx = buf.indexOf(HEADER_END);
+            if (idx == -1) {
+              if (buf.length > HEADER_LIMIT) {
+                ctx.throw(400, 'Multipart headers too large');
+              }
+              break;
+            }
+            await startPart(buf.subarray(0, idx).toString('utf-8'));
+            buf = buf.subarray(idx + HEADER_END.length);
+            state = 'body';
+            continue;
+          }
+
+          const idx = buf.indexOf(delimiter);
+          if (idx == -1) {
+            // keep possible partial delimiter at the end
+            const keep = Math.min(buf.length, delimiter.length - 1);
+            if (state == 'body') {
+              await write(buf.subarray(0, buf.length - keep));
+            }
+            buf = buf.subarray(buf.length - keep);
+            break;
+          }
+          // delimiter is followed by "--" for last part or CRLF
+          if (buf.length < idx + delimiter.length + 2) {
+            break;
+          }
+          if (state == 'body') {
+            await write(buf.subarray(0, idx));
+            await endPart();
+          }
+          const suffix = buf.subarray(idx + delimiter.length, idx + delimiter.length + 2).toString();
+          buf = buf.subarray(idx + delimiter.length + 2);
+          state = suffix == '--' ? 'end' : 'headers';
+        }
+      }
+      if (state != 'end') {
+        ctx.throw(400, 'Unexpected end of multipart body');
+      }
+    } catch (err) {
+      // discard rest of the body, connection remains usable for response
+      raw.unpipe();
+      raw.resume();
+      (writer as WriteStream | null)?.destroy();
+      throw err;
+    }
+
+    return fields;
+  }
+
+  protected parseHeaders(ctx: IHttpContext, raw: string): IPartHeaders {
+    const headers: Record<string, string> = {};
+    for (const line of raw.split('\r\n')) {
+      const idx = line.indexOf(':');
+      if (idx > 0) {
+        headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+      }
+    }
+    const disposition = headers['content-disposition'] || '';
+    const name = this.param(disposition, 'name');
+    if (!/^form-data/i.test(disposition) || typeof name == 'undefined') {
+      ctx.throw(400, 'Invalid multipart content disposition');
+    }
+    const encoded = this.param(disposition, 'filename*');
+    let filename = this.param(disposition, 'filename');
+    if (encoded) {
+      // RFC 5987, charset''value
+      filename = decodeURIComponent(encoded.replace(/^[^']*'[^']*'/, ''));
+    }
+    return {
+      name: name as string,
+      filename: typeof filename == 'undefined' ? undefined : path.basename(filename.replace(/\\/g, '/')),
+      type: headers['content-type'] || 'application/octet-stream',
+    };
+  }
+
+  protected param(header: string, key: string) {
+    const escaped = key.replace('*', '\\*');
+    const match = new RegExp(`;\\s*${escaped}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]*))`, 'i').exec(header);
+    if (!match) {
+      return undefined;
+    }
+    return typeof match[1] == 'undefined' ? match[2] : match[1].replace(/\\(.)/g, '$1');
+  }
+
+  protected append<T>(data: Record<string, T | T[]>, key: string, value: T) {
+    const current = data[key];
+    if (typeof current == 'undefined') {
+      data[key] = value;
+    } else if (Array.isArray(current)) {
+      current.push(value);
+    } else {
+      data[key] = [current, value];
+    }
+  }
+
+  protected group(files: HttpFile[]) {
+    const grouped: Record<string, IHttpFile | IHttpFile[]> = {};
+    for (const file of files) {
+      this.append(grouped, file.fieldName, file as IHttpFile);
+    }
+    return grouped;
+  }
+}
@@ -0,0 +1,137 @@
+import { MIME_EXT_MAP } from '../support/mime.js';
+
+const TYPE_ALIASES: Record<string, string> = {
+  text: 'text/plain',
+  urlencoded: 'application/x-www-form-urlencoded',
+  form: 'application/x-www-form-urlencoded',
+  multipart: 'multipart/*',
+  xml: 'application/xml',
+};
+
+/**
+ * expand short type names (html, json, urlencoded...) to mime type
+ * @param type
+ * @returns {string}
+ */
+export function normalizeType(type: string) {
+  if (type.includes('/')) {
+    return type.toLowerCase();
+  }
+  if (TYPE_ALIASES[type]) {
+    return TYPE_ALIASES[type];
+  }
+  const ext = type[0] == '.' ? type : '.' + type;
+  return (MIME_EXT_MAP[ext] as string | undefined) || type;
+}
+
+function mimeMatch(expected: string, actual: string) {
+  const [etype, esubtype] = expected.split('/');
+  const [atype, asubtype] = actual.split('/');
+  if (!asubtype || !esubtype) {
+    return false;
+  }
+  if (etype != '*' && atype != '*' && etype != atype) {
+    return false;
+  }
+  return esubtype == '*' || asubtype == '*' || esubtype == asubtype
+    // application/problem+json should match json
+    || asubtype.endsWith('+' + esubtype);
+}
+
+/**
+ * parse accept header into media ranges ordered by quality
+ * @param accept
+ */
+export function parseAccept(accept: string) {
+  const ranges: Array<{ type: string, q: number, i: number }> = [];
+  accept.split(',').forEach((part, i) => {
+    const [type, ...params] = part.trim().split(';');
+    if (!type) {
+      return;
+    }
+    let q = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split('=');
+      if (key == 'q') {
+        q = parseFloat(value);
+        if (Number.isNaN(q)) {
+          q = 0;
+        }
+      }
+    }
+    ranges.push({ type: type.trim().toLowerCase(), q, i });
+  });
+  return ranges.sort((a, b) => (b.q - a.q) || (a.i - b.i));
+}
+
+/**
+ * pick best type from given types for accept header, same as koa `accepts`
+ * @param accept accept header value
+ * @param types
+ * @returns {string|false}
+ */
+export function acceptsType(accept: string | undefined, types: string[]): string | false {
+  if (!types.length) {
+    return false;
+  }
+  if (!accept) {
+    return types[0];
+  }
+  for (const range of parseAccept(accept)) {
+    if (range.q <= 0) {
+      continue;
+    }
+    for (const type of types) {
+      if (mimeMatch(range.type, normalizeType(type))) {
+        return type;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * check request content type against given types, same as koa `is`
+ * @param contentType content-type header value
+ * @param types
+ * @returns {string|false|null}
+ */
+export function isType(contentType: string | undefined, types: string[]): string | false | null {
+  if (!contentType) {
+    return null;
+  }
+  const actual = contentType.split(';')[0].trim().toLowerCase();
+  if (!types.length) {
+    return actual;
+  }
+  for (const type of types) {
+    if (mimeMatch(normalizeType(type), actual)) {
+      return type;
+    }
+  }
+  return false;
+}
+
+/**
+ * pick content coding for accept-encoding header, ties are resolved by order of given encodings
+ * @param accept accept-encoding header value
+ * @param encodings supported encodings in order of preference
+ * @returns {string|false}
+ */
+export function acceptsEncoding(accept: string | undefined, encodings: string[]): string | false {
+  if (!accept) {
+    return false;
+  }
+  const ranges = parseAccept(accept);
+  const wildcard = ranges.find(range => range.type == '*');
+  let best: string | false = false;
+  let bestQ = 0;
+  for (const encoding of encodings) {
+    const range = ranges.find(range => range.type == encoding) || wildcard;
+    if (range && range.q > bestQ) {
+      best = encoding;
+      bestQ = range.q;
+    }
+  }
+  return best;
+}
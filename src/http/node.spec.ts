@@ -0,0 +1,107 @@
+import t from 'tap';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { HttpApp } from './app.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+
+const router = new HttpRouter();
+router.get('/users/:id', async ctx => {
+  ctx.json({ id: ctx.params['id'], tags: ctx.query.all('tag') });
+});
+router.get('/text', async ctx => {
+  ctx.reply({ status: 200, body: 'plain text', headers: { 'x-custom': 'yes' } });
+});
+router.get('/html', async ctx => {
+  ctx.reply({ status: 200, body: '<p>html</p>' });
+});
+router.post('/cookie', async ctx => {
+  ctx.cookies.set('a', '1', { maxAge: 60000 });
+  ctx.cookies.set('b', '2', { httpOnly: false });
+  ctx.noContent();
+});
+router.get('/back', async ctx => {
+  ctx.redirect('back', '/home');
+});
+router.get('/fail', async () => {
+  throw new Error('boom');
+});
+
+const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+const node = new HttpNode();
+node.use(async (ctx, next) => {
+  ctx.setHeader('x-adapter', 'node');
+  await next();
+});
+const app = new HttpApp({ use: node, conf });
+app.router(router);
+
+let base = '';
+let server: Server;
+
+t.before(async () => {
+  await new Promise(resolve => {
+    server = app.listen(resolve);
+  });
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+t.teardown(() => {
+  server.close();
+});
+
+t.test('HttpNode routes with params and query', async t => {
+  const res = await fetch(`${base}/users/7?tag=a&tag=b`);
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('x-adapter'), 'node');
+  t.same(await res.json(), { id: '7', tags: ['a', 'b'] });
+});
+
+t.test('HttpNode writes string bodies with content type', async t => {
+  const text = await fetch(`${base}/text`);
+  t.equal(text.headers.get('content-type'), 'text/plain; charset=utf-8');
+  t.equal(text.headers.get('content-length'), '10');
+  t.equal(text.headers.get('x-custom'), 'yes');
+  t.equal(await text.text(), 'plain text');
+
+  const html = await fetch(`${base}/html`);
+  t.equal(html.headers.get('content-type'), 'text/html; charset=utf-8');
+});
+
+t.test('HttpNode skips body for HEAD', async t => {
+  const res = await fetch(`${base}/text`, { method: 'HEAD' });
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('content-length'), '10');
+  t.equal(await res.text(), '');
+});
+
+t.test('HttpNode writes multiple cookies', async t => {
+  const res = await fetch(`${base}/cookie`, { method: 'POST' });
+  t.equal(res.status, 204);
+  const cookies = res.headers.getSetCookie();
+  t.equal(cookies.length, 2);
+  t.match(cookies[0], /^a=1; Max-Age=60; Expires=.+; Path=\/; HttpOnly$/);
+  t.equal(cookies[1], 'b=2; Path=/');
+});
+
+t.test('HttpNode redirects back', async t => {
+  let res = await fetch(`${base}/back`, { redirect: 'manual' });
+  t.equal(res.headers.get('location'), '/home');
+
+  res = await fetch(`${base}/back`, { redirect: 'manual', headers: { referer: '/from' } });
+  t.equal(res.headers.get('location'), '/from');
+});
+
+t.test('HttpNode responds 404 when route not found', async t => {
+  const res = await fetch(`${base}/missing`);
+  t.equal(res.status, 404);
+  t.equal(await res.text(), 'Not Found');
+});
+
+t.test('HttpNode responds with handled exception', async t => {
+  const res = await fetch(`${base}/fail`, { headers: { accept: 'application/json' } });
+  t.equal(res.status, 500);
+  t.same(await res.json(), { message: 'Internal server error.' });
+});
@@ -0,0 +1,93 @@
+import { createServer, IncomingMessage, RequestListener, Server, ServerResponse } from 'node:http';
+import { TLSSocket } from 'node:tls';
+
+import { HttpBaseContext, httpDisconnectSignal, writeHttpResponse } from './base.js';
+import { composeAsync } from '../support/compose.js';
+
+export type HttpNodeMiddlewareCallback = (ctx: HttpNodeContext, next: any) => Promise<any> | any;
+
+/**
+ * native node:http adapter, no framework required
+ */
+export class HttpNode {
+  protected middlewares: HttpNodeMiddlewareCallback[] = [];
+  protected fn: HttpNodeMiddlewareCallback | null = null;
+
+  use(fn: HttpNodeMiddlewareCallback) {
+    this.middlewares.push(fn);
+    return this;
+  }
+
+  handler(fn: any) {
+    this.fn = fn;
+  }
+
+  /**
+   * request listener for node:http createServer
+   * @returns {RequestListener}
+   */
+  callback(): RequestListener {
+    const fn = composeAsync<HttpNodeContext>(this.fn ? [...this.middlewares, this.fn] : [...this.middlewares]);
+    return (req: IncomingMessage, res: ServerResponse) => {
+      const ctx = new HttpNodeContext(req, res);
+      fn(ctx, async () => { })
+        .then(() => ctx.commit())
+        .catch((err: any) => this.onerror(err, ctx));
+    };
+  }
+
+  listen(...args: any): Server {
+    return createServer(this.callback()).listen(...args);
+  }
+
+  /**
+   * last resort, only reached when exception is not handled by http app
+   * @param err
+   * @param ctx
+   */
+  protected onerror(err: any, ctx: HttpNodeContext) {
+    console.error(err);
+    if (ctx.res.headersSent) {
+      ctx.res.destroy();
+      return;
+    }
+    writeHttpResponse(ctx.res, {
+      status: 500,
+      headers: { 'content-type': 'text/plain; charset=utf-8' },
+      body: 'Internal Server Error',
+    });
+  }
+}
+
+export class HttpNodeContext extends HttpBaseContext {
+  constructor(readonly req: IncomingMessage, readonly res: ServerResponse) {
+    super(req.headers, httpDisconnectSignal(res));
+  }
+
+  get method() {
+    return this.req.method as string;
+  }
+
+  protected get rawUrl() {
+    return this.req.url || '/';
+  }
+
+  protected get remoteAddress() {
+    return this.req.socket?.remoteAddress || '';
+  }
+
+  protected get encrypted() {
+    return this.req.socket instanceof TLSSocket && this.req.socket.encrypted;
+  }
+
+  requestStream() {
+    return this.req;
+  }
+
+  /**
+   * write response to client
+   */
+  commit() {
+    writeHttpResponse(this.res, this.payload(), this.method == 'HEAD');
+  }
+}
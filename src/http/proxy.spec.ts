@@ -0,0 +1,189 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+
+import { HttpApp } from './app.js';
+import { HTTP_KEY_TRUST_PROXY } from './consts.js';
+import { HttpRequestHeaders } from './context.js';
+import { HttpExpressContext } from './express.js';
+import { HttpKoaContext } from './koa.js';
+import { HttpNode } from './node.js';
+import { HttpTrustProxy, parseForwarded } from './proxy.js';
+import { HttpRateLimit } from './ratelimit.js';
+import { HttpRouter } from './router/index.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+import { TestHttpContext } from '../testing/http/context.js';
+
+const peer = { address: '10.0.0.2', encrypted: false, host: 'internal:3000' };
+
+function headers(values: Record<string, string | string[]>) {
+  return new HttpRequestHeaders(values, () => { });
+}
+
+function createRouter() {
+  const router = new HttpRouter();
+  router.get('/client', async ctx => {
+    ctx.json({ ip: ctx.ip, ips: ctx.ips, protocol: ctx.protocol, secure: ctx.secure, host: ctx.host, origin: ctx.origin });
+  });
+  return router;
+}
+
+t.test('parseForwarded', async t => {
+  t.same(parseForwarded('for=192.0.2.60;proto=http;by=203.0.113.43'), [{ for: '192.0.2.60', proto: 'http', by: '203.0.113.43' }]);
+  t.same(parseForwarded('For="[2001:db8:cafe::17]:4711", for=198.51.100.17;host="a.test"'), [
+    { for: '[2001:db8:cafe::17]:4711' },
+    { for: '198.51.100.17', host: 'a.test' },
+  ]);
+  t.same(parseForwarded(''), []);
+});
+
+t.test('untrusted peer keeps raw values', async t => {
+  const proxy = new HttpTrustProxy('loopback');
+  t.same(proxy.resolve(peer, headers({ 'x-forwarded-for': '1.1.1.1', 'x-forwarded-proto': 'https' })), {
+    ip: '10.0.0.2', ips: [], protocol: 'http', host: 'internal:3000',
+  });
+  t.notOk(new HttpTrustProxy(false).trusted('127.0.0.1', 0));
+});
+
+t.test('hop count', async t => {
+  const values = headers({ 'x-forwarded-for': '6.6.6.6, 1.1.1.1, 10.0.0.1', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'example.com' });
+  t.same(new HttpTrustProxy(1).resolve(peer, values), { ip: '10.0.0.1', ips: ['10.0.0.1'], protocol: 'https', host: 'example.com' });
+  t.same(new HttpTrustProxy(2).resolve(peer, values).ip, '1.1.1.1');
+  t.same(new HttpTrustProxy(true).resolve(peer, values), {
+    ip: '6.6.6.6', ips: ['6.6.6.6', '1.1.1.1', '10.0.0.1'], protocol: 'https', host: 'example.com',
+  }, 'spoofed first entry is trusted with true');
+});
+
+t.test('address and CIDR list', async t => {
+  const proxy = new HttpTrustProxy(['10.0.0.0/8', '::1', 'loopback']);
+  const values = headers({ 'x-forwarded-for': ['6.6.6.6, 1.1.1.1', '10.0.0.1'] });
+  t.same(proxy.resolve(peer, values).ip, '1.1.1.1', 'stops at first untrusted hop');
+  t.same(proxy.resolve(peer, values).ips, ['1.1.1.1', '10.0.0.1']);
+  t.ok(proxy.trusted('::ffff:10.1.2.3', 0), 'ipv4-mapped address');
+  t.ok(proxy.trusted('127.0.0.5', 3));
+  t.notOk(proxy.trusted('unknown', 1));
+  t.throws(() => new HttpTrustProxy('10.0.0.0/8, proxy.local'), /Invalid trusted proxy address proxy.local/);
+});
+
+t.test('function', async t => {
+  const proxy = new HttpTrustProxy((address, hop) => hop == 0 || address == '1.1.1.1');
+  t.equal(proxy.resolve(peer, headers({ 'x-forwarded-for': '6.6.6.6, 7.7.7.7, 1.1.1.1' })).ip, '7.7.7.7');
+});
+
+t.test('Forwarded header supersedes X-Forwarded-*', async t => {
+  const proxy = new HttpTrustProxy('10.0.0.0/8');
+  const values = headers({
+    'forwarded': 'for="[2001:db8::1]:4711";proto=https;host=shop.test, for=10.0.0.9:8080;proto=http',
+    'x-forwarded-for': '9.9.9.9',
+  });
+  t.same(proxy.resolve(peer, values), { ip: '2001:db8::1', ips: ['2001:db8::1', '10.0.0.9'], protocol: 'https', host: 'shop.test' });
+  t.same(proxy.resolve(peer, headers({ forwarded: 'for=_hidden, for=10.0.0.9' })).ip, '_hidden', 'obfuscated node is client');
+});
+
+t.test('fromConf', async t => {
+  const conf = (value?: string) => new Conf({ env: value === undefined ? {} : { APP_TRUST_PROXY: value }, mergeEnv: false });
+  t.equal(HttpTrustProxy.fromConf(conf()), null);
+  t.equal(HttpTrustProxy.fromConf(conf('false')), null);
+  t.ok(HttpTrustProxy.fromConf(conf('true'))?.trusted('6.6.6.6', 9));
+  t.ok(HttpTrustProxy.fromConf(conf('2'))?.trusted('6.6.6.6', 1));
+  t.notOk(HttpTrustProxy.fromConf(conf('2'))?.trusted('6.6.6.6', 2));
+  t.ok(HttpTrustProxy.fromConf(conf('loopback,10.0.0.0/8'))?.trusted('10.4.0.1', 5));
+});
+
+t.test('node adapter with APP_TRUST_PROXY', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0', APP_TRUST_PROXY: 'loopback' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  app.router(createRouter());
+  const server = await app.start();
+  t.teardown(() => app.close());
+
+  const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/client`, {
+    headers: { 'x-forwarded-for': '203.0.113.7', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'example.com' },
+  });
+  t.same(await res.json(), {
+    ip: '203.0.113.7', ips: ['203.0.113.7'], protocol: 'https', secure: true, host: 'example.com', origin: 'https://example.com',
+  });
+});
+
+t.test('fetch adapter, rate limit sees client ip', async t => {
+  const conf = new Conf({ env: {}, mergeEnv: false });
+  const trusted = TestHttpApp({ conf, trustProxy: 1 });
+  trusted.app.use(HttpRateLimit.middleware({ limit: 1 }));
+  trusted.app.router(createRouter());
+
+  const request = (client: string) => trusted.fetch(
+    'http://internal/client',
+    { headers: { 'x-forwarded-for': client } },
+    { remoteAddress: '10.0.0.2' },
+  );
+  const res = await request('203.0.113.7');
+  t.equal(res.status, 200);
+  t.same((await res.json()).ip, '203.0.113.7');
+  t.equal((await request('203.0.113.8')).status, 200, 'another client has own limit');
+  t.equal((await request('203.0.113.7')).status, 429);
+
+  const untrusted = TestHttpApp({ conf });
+  untrusted.app.router(createRouter());
+  const body = await (await untrusted.fetch(
+    'http://internal/client',
+    { headers: { 'x-forwarded-for': '6.6.6.6' } },
+    { remoteAddress: '10.0.0.2' },
+  )).json();
+  t.same(body, { ip: '10.0.0.2', ips: [], protocol: 'http', secure: false, host: 'internal', origin: 'http://internal' }, 'headers are ignored without trusted proxy');
+});
+
+t.test('express context prefers astad trust over express settings', async t => {
+  const req: any = {
+    headers: { 'x-forwarded-for': '203.0.113.7', 'x-forwarded-proto': 'https', host: 'internal' },
+    socket: { remoteAddress: '127.0.0.1' },
+    method: 'GET',
+    url: '/',
+    ip: '127.0.0.1',
+    protocol: 'http',
+    secure: false,
+  };
+  const ctx = new HttpExpressContext(req, { once() { } } as any);
+  t.equal(ctx.ip, '127.0.0.1', 'express settings without trusted proxy');
+  t.equal(ctx.protocol, 'http');
+
+  ctx.put(HTTP_KEY_TRUST_PROXY, new HttpTrustProxy('loopback'));
+  t.equal(ctx.ip, '203.0.113.7');
+  t.same(ctx.ips, ['203.0.113.7']);
+  t.equal(ctx.protocol, 'https');
+  t.equal(ctx.secure, true);
+});
+
+t.test('koa context', async t => {
+  const koa: any = {
+    req: { socket: { remoteAddress: '::ffff:127.0.0.1' }, headers: { host: 'internal' } },
+    res: { once() { } },
+    headers: { 'x-forwarded-for': '203.0.113.7', 'x-forwarded-host': 'example.com', host: 'internal' },
+    query: {},
+    request: { ip: '::ffff:127.0.0.1', ips: [], protocol: 'http', secure: false, host: 'internal', origin: 'http://internal', originalUrl: '/a?b=1' },
+  };
+  const ctx = new HttpKoaContext(koa);
+  t.equal(ctx.ip, '::ffff:127.0.0.1', 'koa settings without trusted proxy');
+
+  ctx.put(HTTP_KEY_TRUST_PROXY, new HttpTrustProxy('loopback'));
+  t.equal(ctx.ip, '203.0.113.7');
+  t.equal(ctx.host, 'example.com');
+  t.equal(ctx.href, 'http://example.com/a?b=1');
+});
+
+t.test('test context', async t => {
+  const ctx = new TestHttpContext({
+    path: '/',
+    ip: '10.0.0.2',
+    headers: { 'X-Forwarded-For': '203.0.113.7', 'X-Forwarded-Proto': 'https' },
+    trustProxy: '10.0.0.0/8',
+  });
+  t.equal(ctx.ip, '203.0.113.7');
+  t.same(ctx.ips, ['203.0.113.7']);
+  t.equal(ctx.protocol, 'https');
+  t.equal(ctx.secure, true);
+  t.equal(ctx.host, '127.0.0.1');
+
+  const plain = new TestHttpContext({ path: '/', ip: '10.0.0.2', headers: { 'x-forwarded-for': '203.0.113.7' } });
+  t.equal(plain.ip, '10.0.0.2');
+  t.same(plain.ips, ['10.0.0.2']);
+});
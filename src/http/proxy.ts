@@ -0,0 +1,248 @@
+import { BlockList, isIP } from 'node:net';
+
+import { HttpRequestHeaders, IHttpContext } from './context.js';
+import { HTTP_KEY_TRUST_PROXY } from './consts.js';
+
+/**
+ * decide if address is trusted proxy, hop 0 is connected peer
+ */
+export type HttpTrustProxyFn = (address: string, hop: number) => boolean;
+
+/**
+ * true trusts every hop, number trusts that many hops, strings are addresses,
+ * CIDR ranges or `loopback`, `linklocal` and `uniquelocal`
+ */
+export type HttpTrustProxyOpt = boolean | number | string | string[] | HttpTrustProxyFn;
+
+/**
+ * request as received by server, before forwarded headers are applied
+ */
+export interface IHttpPeer {
+  address: string
+  encrypted: boolean
+  host: string
+}
+
+export interface IHttpForwarded {
+  /**
+   * client address, first untrusted hop
+   */
+  ip: string
+  /**
+   * addresses of trusted hops, client first, connected peer excluded
+   */
+  ips: string[]
+  protocol: string
+  host: string
+}
+
+interface IHttpProxyConf {
+  var(key: any): string | undefined
+}
+
+export const HTTP_TRUST_PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/**
+ * parse RFC 7239 `Forwarded` header, elements are ordered client first
+ * @param value
+ * @returns {Array<Record<string, string>>}
+ */
+export function parseForwarded(value: string): Array<Record<string, string>> {
+  const elements: Array<Record<string, string>> = [];
+  let element: Record<string, string> = {};
+  // quoted values may contain separators, e.g. `for="[2001:db8::1]:4711"`
+  const pattern = /\s*([!#$%&'*+.^_`|~0-9a-z-]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;,\s]*)\s*([;,]|$)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) && match[0]) {
+    let param = match[2];
+    if (param[0] == '"') {
+      param = param.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    element[match[1].toLowerCase()] = param;
+    if (match[3] != ';') {
+      elements.push(element);
+      element = {};
+    }
+  }
+  return elements;
+}
+
+/**
+ * address of `for` parameter without brackets and port
+ * @param node
+ * @returns {string}
+ */
+function nodeAddress(node: string | undefined) {
+  if (!node) {
+    return 'unknown';
+  }
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(node);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  // ipv4 with port, bare ipv6 has more colons
+  return node.split(':').length == 2 ? node.split(':')[0] : node;
+}
+
+/**
+ * comma separated values of all header lines
+ * @param headers
+ * @param key
+ * @returns {string[]}
+ */
+function headerList(headers: HttpRequestHeaders, key: string): string[] {
+  return [headers.all(key)].flat(2)
+    .filter((value): value is string => typeof value == 'string')
+    .join(',')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value);
+}
+
+/**
+ * value set by proxy of hop, lists shorter than chain (overwritten by proxies) fall back to first value
+ * @param values
+ * @param index
+ */
+function hopValue<T>(values: T[], index: number): T | undefined {
+  return values[Math.max(0, Math.min(index, values.length - 1))];
+}
+
+/**
+ * Resolves client address, protocol and host from `Forwarded` or `X-Forwarded-For`,
+ * `X-Forwarded-Proto` and `X-Forwarded-Host`, walking hops from connected peer until
+ * first untrusted address. Headers are ignored unless connected peer is trusted.
+ */
+export class HttpTrustProxy {
+  protected trusts: HttpTrustProxyFn;
+
+  constructor(opt: HttpTrustProxyOpt) {
+    this.trusts = this.compile(opt);
+  }
+
+  /**
+   * @param opt
+   * @returns {HttpTrustProxy}
+   */
+  static from(opt: HttpTrustProxyOpt | HttpTrustProxy) {
+    return opt instanceof HttpTrustProxy ? opt : new HttpTrustProxy(opt);
+  }
+
+  /**
+   * trust from `APP_TRUST_PROXY`, `true`, hop count or comma separated list, null when not set
+   * @param conf
+   * @returns {HttpTrustProxy|null}
+   */
+  static fromConf(conf: IHttpProxyConf) {
+    const value = (conf.var('APP_TRUST_PROXY') || '').trim();
+    if (!value || value == 'false') {
+      return null;
+    }
+    if (value == 'true') {
+      return new HttpTrustProxy(true);
+    }
+    if (/^\d+$/.test(value)) {
+      return new HttpTrustProxy(parseInt(value, 10));
+    }
+    return new HttpTrustProxy(value.split(','));
+  }
+
+  /**
+   * @param address
+   * @param hop 0 for connected peer
+   * @returns {boolean}
+   */
+  trusted(address: string, hop: number) {
+    return this.trusts(address, hop);
+  }
+
+  /**
+   * apply forwarded headers of trusted hops to peer
+   * @param peer
+   * @param headers
+   * @returns {IHttpForwarded}
+   */
+  resolve(peer: IHttpPeer, headers: HttpRequestHeaders): IHttpForwarded {
+    const raw = { ip: peer.address, ips: [], protocol: peer.encrypted ? 'https' : 'http', host: peer.host };
+    if (!this.trusts(peer.address, 0)) {
+      return raw;
+    }
+
+    // Forwarded supersedes X-Forwarded-*, proxies should not send both
+    const forwarded = parseForwarded(headerList(headers, 'forwarded').join(','));
+    const clients = forwarded.length ? forwarded.map(element => nodeAddress(element['for'])) : headerList(headers, 'x-forwarded-for');
+    if (!clients.length) {
+      return raw;
+    }
+    // chain from connected peer outwards
+    const chain = [peer.address, ...[...clients].reverse()];
+    let hop = 0;
+    while (hop < chain.length - 1 && this.trusts(chain[hop], hop)) {
+      hop++;
+    }
+
+    // element appended by trusted proxy in front of client
+    const index = clients.length - hop;
+    const protocols: Array<string | undefined> = forwarded.length ? forwarded.map(element => element['proto']) : headerList(headers, 'x-forwarded-proto');
+    const hosts: Array<string | undefined> = forwarded.length ? forwarded.map(element => element['host']) : headerList(headers, 'x-forwarded-host');
+    const protocol = hopValue(protocols, index)?.toLowerCase();
+    return {
+      ip: chain[hop],
+      ips: chain.slice(1, hop + 1).reverse(),
+      protocol: protocol == 'http' || protocol == 'https' ? protocol : raw.protocol,
+      host: hopValue(hosts, index) || raw.host,
+    };
+  }
+
+  protected compile(opt: HttpTrustProxyOpt): HttpTrustProxyFn {
+    if (typeof opt == 'function') {
+      return opt;
+    }
+    if (typeof opt == 'boolean') {
+      return () => opt;
+    }
+    if (typeof opt == 'number') {
+      return (_address, hop) => hop < opt;
+    }
+    const list = new BlockList();
+    const ranges = (Array.isArray(opt) ? opt : opt.split(','))
+      .map(value => value.trim())
+      .filter(value => value)
+      .flatMap(value => HTTP_TRUST_PROXY_PRESETS[value] || [value]);
+    for (const range of ranges) {
+      const [address, prefix] = range.split('/');
+      const version = isIP(address);
+      if (!version) {
+        throw new Error(`Invalid trusted proxy address ${range}.`);
+      }
+      const type = version == 4 ? 'ipv4' : 'ipv6';
+      if (typeof prefix == 'undefined') {
+        list.addAddress(address, type);
+      } else {
+        list.addSubnet(address, parseInt(prefix, 10), type);
+      }
+    }
+    return address => {
+      // ipv4 clients of dual stack servers are ipv4-mapped
+      const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+      const ip = mapped ? mapped[1] : address;
+      const version = isIP(ip);
+      return version > 0 && list.check(ip, version == 4 ? 'ipv4' : 'ipv6');
+    };
+  }
+}
+
+/**
+ * forwarded request of context, null when app has no trusted proxy
+ * @param ctx
+ * @param peer
+ * @returns {IHttpForwarded|null}
+ */
+export function httpForwarded(ctx: IHttpContext, peer: IHttpPeer): IHttpForwarded | null {
+  const proxy = ctx.value<HttpTrustProxy>(HTTP_KEY_TRUST_PROXY);
+  return proxy ? proxy.resolve(peer, ctx.headers) : null;
+}
@@ -0,0 +1,143 @@
+import t from 'tap';
+
+import { HttpRateLimit, HttpRateLimitMemoryStore, HttpRateLimitOpts } from './ratelimit.js';
+import { HttpRouter } from './router/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(opts: Partial<HttpRateLimitOpts>) {
+  const client = TestHttpApp({ logErrors: false });
+  const app = client.app;
+  app.use(HttpRateLimit.middleware(opts));
+  const router = new HttpRouter();
+  router.get('/items', async ctx => {
+    ctx.json({ ok: true });
+  });
+  router.post('/login', async ctx => {
+    ctx.json({ ok: true });
+  }).meta({ rateLimit: { limit: 1 } });
+  router.get('/health', async ctx => {
+    ctx.json({ ok: true });
+  }).meta({ rateLimit: false });
+  app.router(router);
+  return client;
+}
+
+function get(path: string, headers: Record<string, string> = {}, method = 'GET') {
+  return new Request(`http://localhost${path}`, { method, headers });
+}
+
+t.test('HttpRateLimit fixed window responds 429 with headers', async t => {
+  const store = new HttpRateLimitMemoryStore();
+  t.teardown(() => store.close());
+  const client = createApp({ limit: 2, window: 60000, store });
+
+  let res = await client.fetch(get('/items'));
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('ratelimit-limit'), '2');
+  t.equal(res.headers.get('ratelimit-remaining'), '1');
+  t.equal(res.headers.get('ratelimit-reset'), '60');
+  t.equal(res.headers.get('ratelimit-policy'), '2;w=60');
+
+  res = await client.fetch(get('/items'));
+  t.equal(res.headers.get('ratelimit-remaining'), '0');
+
+  res = await client.fetch(get('/items'));
+  t.equal(res.status, 429);
+  t.equal(res.headers.get('retry-after'), '60');
+  t.same(await res.json(), { message: 'Too many requests' });
+});
+
+t.test('HttpRateLimit uses route meta', async t => {
+  const store = new HttpRateLimitMemoryStore();
+  t.teardown(() => store.close());
+  const client = createApp({ limit: 2, store });
+
+  t.equal((await client.fetch(get('/login', {}, 'POST'))).status, 200);
+  t.equal((await client.fetch(get('/login', {}, 'POST'))).status, 429);
+  // route with own rule doesn't consume global counter
+  t.equal((await client.fetch(get('/items'))).status, 200);
+  t.equal((await client.fetch(get('/items'))).status, 200);
+
+  for (let i = 0; i < 3; i++) {
+    const res = await client.fetch(get('/health'));
+    t.equal(res.status, 200);
+    t.equal(res.headers.get('ratelimit-limit'), null);
+  }
+});
+
+t.test('HttpRateLimit token bucket refills over time', async t => {
+  const store = new HttpRateLimitMemoryStore();
+  t.teardown(() => store.close());
+  const client = createApp({ algorithm: 'token-bucket', limit: 2, window: 200, store });
+
+  t.equal((await client.fetch(get('/items'))).status, 200);
+  t.equal((await client.fetch(get('/items'))).status, 200);
+  const res = await client.fetch(get('/items'));
+  t.equal(res.status, 429);
+  t.equal(res.headers.get('retry-after'), '1');
+
+  await new Promise(resolve => setTimeout(resolve, 120));
+  t.equal((await client.fetch(get('/items'))).status, 200, 'one token refilled');
+});
+
+t.test('HttpRateLimit keys by custom function and plugs store', async t => {
+  const keys: string[] = [];
+  const client = createApp({
+    limit: 1,
+    key: ctx => ctx.headers.get('x-api-key') || 'anonymous',
+    store: {
+      async hit(key, limit) {
+        keys.push(key);
+        const count = keys.filter(k => k == key).length;
+        return { allowed: count <= limit, remaining: Math.max(0, limit - count), resetIn: 1000, retryIn: 1000 };
+      },
+      async take() {
+        throw new Error('not used');
+      },
+      async reset() { },
+    },
+  });
+
+  t.equal((await client.fetch(get('/items', { 'x-api-key': 'a' }))).status, 200);
+  t.equal((await client.fetch(get('/items', { 'x-api-key': 'b' }))).status, 200);
+  t.equal((await client.fetch(get('/items', { 'x-api-key': 'a' }))).status, 429);
+  t.same(keys, ['rl:a', 'rl:b', 'rl:a']);
+});
+
+t.test('HttpRateLimit keys by user id and falls back to ip', async t => {
+  const keys: string[] = [];
+  const client = TestHttpApp({ logErrors: false });
+  client.app.use(async (ctx: any, next: any) => {
+    const user = ctx.headers.get('x-user');
+    if (user) {
+      ctx.put('user', JSON.parse(user));
+    }
+    await next();
+  });
+  client.app.use(HttpRateLimit.middleware({
+    key: 'user',
+    store: {
+      async hit(key, limit) {
+        keys.push(key);
+        return { allowed: true, remaining: limit, resetIn: 1000, retryIn: 0 };
+      },
+      async take() {
+        throw new Error('not used');
+      },
+      async reset() { },
+    },
+  }));
+  const router = new HttpRouter();
+  router.get('/items', async ctx => {
+    ctx.json({ ok: true });
+  });
+  client.app.router(router);
+
+  const info = { remoteAddress: '10.0.0.2' };
+  await client.fetch('/items', { headers: { 'x-user': '{"id":7}' } }, info);
+  await client.fetch('/items', { headers: { 'x-user': '{"_id":"abc"}' } }, info);
+  await client.fetch('/items', { headers: { 'x-user': '{"name":"guest"}' } }, info);
+  await client.fetch('/items', { headers: { 'x-user': '"joe"' } }, info);
+  await client.fetch('/items', {}, info);
+  t.same(keys, ['rl:user:7', 'rl:user:abc', 'rl:ip:10.0.0.2', 'rl:user:joe', 'rl:ip:10.0.0.2']);
+});
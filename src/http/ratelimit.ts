@@ -0,0 +1,233 @@
+import { IHttpContext } from './context.js';
+import { HTTP_KEY_ROUTE, HTTP_KEY_USER } from './consts.js';
+import { HttpRoute } from './router/route.js';
+
+export type HttpRateLimitAlgorithm = 'fixed-window' | 'token-bucket';
+
+export type HttpRateLimitKey = 'ip' | 'user' | ((ctx: IHttpContext) => string | Promise<string>);
+
+export interface IHttpRateLimitResult {
+  allowed: boolean
+  /**
+   * requests or tokens left
+   */
+  remaining: number
+  /**
+   * milliseconds until window resets or bucket is full
+   */
+  resetIn: number
+  /**
+   * milliseconds until next request is allowed, 0 when allowed
+   */
+  retryIn: number
+}
+
+/**
+ * storage of rate limit state, operations must be atomic for shared backends
+ */
+export interface IHttpRateLimitStore {
+  /**
+   * count hit in fixed window
+   * @param key
+   * @param limit max hits in window
+   * @param window window size in milliseconds
+   */
+  hit(key: string, limit: number, window: number): Promise<IHttpRateLimitResult>
+  /**
+   * take one token from bucket, bucket refills `capacity` tokens per `window`
+   * @param key
+   * @param capacity
+   * @param window refill period in milliseconds
+   */
+  take(key: string, capacity: number, window: number): Promise<IHttpRateLimitResult>
+  reset(key: string): Promise<void>
+}
+
+/**
+ * in-memory store, state is local to process
+ */
+export class HttpRateLimitMemoryStore implements IHttpRateLimitStore {
+  protected windows = new Map<string, { count: number, resetAt: number }>();
+  protected buckets = new Map<string, { tokens: number, updatedAt: number, fullAt: number }>();
+  protected timer: NodeJS.Timeout;
+
+  constructor(cleanupInterval = 60000) {
+    // drop expired state, process can exit while timer is pending
+    this.timer = setInterval(() => this.cleanup(), cleanupInterval);
+    this.timer.unref();
+  }
+
+  async hit(key: string, limit: number, window: number): Promise<IHttpRateLimitResult> {
+    const now = Date.now();
+    let entry = this.windows.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + window };
+      this.windows.set(key, entry);
+    }
+    entry.count++;
+    const resetIn = entry.resetAt - now;
+    const allowed = entry.count <= limit;
+    return {
+      allowed,
+      remaining: Math.max(0, limit - entry.count),
+      resetIn,
+      retryIn: allowed ? 0 : resetIn,
+    };
+  }
+
+  async take(key: string, capacity: number, window: number): Promise<IHttpRateLimitResult> {
+    const now = Date.now();
+    const rate = capacity / window;
+    const entry = this.buckets.get(key) || { tokens: capacity, updatedAt: now, fullAt: now };
+    entry.tokens = Math.min(capacity, entry.tokens + (now - entry.updatedAt) * rate);
+    entry.updatedAt = now;
+    const allowed = entry.tokens >= 1;
+    if (allowed) {
+      entry.tokens -= 1;
+    }
+    entry.fullAt = now + Math.ceil((capacity - entry.tokens) / rate);
+    this.buckets.set(key, entry);
+    return {
+      allowed,
+      remaining: Math.floor(entry.tokens),
+      resetIn: entry.fullAt - now,
+      retryIn: allowed ? 0 : Math.ceil((1 - entry.tokens) / rate),
+    };
+  }
+
+  async reset(key: string) {
+    this.windows.delete(key);
+    this.buckets.delete(key);
+  }
+
+  cleanup() {
+    const now = Date.now();
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+    for (const [key, entry] of this.buckets) {
+      if (entry.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * stop cleanup timer
+   */
+  close() {
+    clearInterval(this.timer);
+  }
+}
+
+export interface IHttpRateLimitRule {
+  algorithm: HttpRateLimitAlgorithm
+  /**
+   * max requests per window, or bucket capacity
+   */
+  limit: number
+  /**
+   * window in milliseconds, token bucket refills `limit` tokens per window
+   */
+  window: number
+  key: HttpRateLimitKey
+}
+
+export interface HttpRateLimitOpts extends IHttpRateLimitRule {
+  store: IHttpRateLimitStore
+  /**
+   * namespace of store keys
+   */
+  prefix: string
+  message: string
+  /**
+   * send RateLimit-* headers with every response
+   */
+  headers: boolean
+}
+
+/**
+ * route meta key, e.g. `route.meta({ rateLimit: { limit: 5 } })`, false disables limit for route
+ */
+export const HTTP_RATE_LIMIT_META = 'rateLimit';
+
+const defaultOptions = {
+  algorithm: 'fixed-window' as HttpRateLimitAlgorithm,
+  limit: 60,
+  window: 60000,
+  key: 'ip' as HttpRateLimitKey,
+  prefix: 'rl',
+  message: 'Too many requests',
+  headers: true,
+};
+
+/**
+ * Rate limit middleware, responds 429 with Retry-After once limit is reached.
+ * Routes can override rule with meta, each route with own rule gets separate counters.
+ */
+export class HttpRateLimit {
+  opts: HttpRateLimitOpts;
+
+  constructor(opts: Partial<HttpRateLimitOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts, store: opts.store || new HttpRateLimitMemoryStore() };
+  }
+
+  static middleware(opts: Partial<HttpRateLimitOpts> = {}) {
+    const limiter = new HttpRateLimit(opts);
+    return limiter.handle.bind(limiter);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    const route = ctx.value<HttpRoute | null>(HTTP_KEY_ROUTE);
+    const meta: Partial<IHttpRateLimitRule> | false | undefined = route?.meta()[HTTP_RATE_LIMIT_META];
+    if (meta === false) {
+      return await next();
+    }
+    const rule: IHttpRateLimitRule = { ...this.opts, ...(meta || {}) };
+    const scope = meta && route ? `${this.opts.prefix}:${route.name}` : this.opts.prefix;
+    const key = `${scope}:${await this.key(ctx, rule.key)}`;
+
+    const result = rule.algorithm == 'token-bucket'
+      ? await this.opts.store.take(key, rule.limit, rule.window)
+      : await this.opts.store.hit(key, rule.limit, rule.window);
+
+    if (this.opts.headers) {
+      ctx.headers.set('RateLimit-Limit', String(rule.limit));
+      ctx.headers.set('RateLimit-Remaining', String(result.remaining));
+      ctx.headers.set('RateLimit-Reset', String(Math.ceil(result.resetIn / 1000)));
+      ctx.headers.set('RateLimit-Policy', `${rule.limit};w=${Math.ceil(rule.window / 1000)}`);
+    }
+
+    if (!result.allowed) {
+      ctx.headers.set('Retry-After', String(Math.max(1, Math.ceil(result.retryIn / 1000))));
+      ctx.abort({ status: 429, message: this.opts.message, expose: true });
+      return;
+    }
+
+    return await next();
+  }
+
+  protected async key(ctx: IHttpContext, key: HttpRateLimitKey) {
+    if (typeof key == 'function') {
+      return await key(ctx);
+    }
+    if (key == 'user') {
+      // user put in context by auth middleware, `id` or `_id` of documents,
+      // anonymous requests and users without id are limited by ip
+      const user = ctx.value<any>(HTTP_KEY_USER);
+      const id = user !== null && typeof user == 'object' ? (user.id ?? user._id) : user;
+      if (id !== null && typeof id != 'undefined') {
+        return `user:${id}`;
+      }
+    }
+    return `ip:${ctx.ip}`;
+  }
+}
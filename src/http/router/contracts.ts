@@ -10,7 +10,8 @@ export interface IRouterOptions {
   middlewares: Array<RouteMiddlewareCallback>
 }
 
-export type HTTP_METHOD = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+// WS is used by websocket routes, matched only for upgrade requests
+export type HTTP_METHOD = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'WS';
 
 export type RouteHandlerCallback<C = IHttpContext> = (ctx: C) => Promise<any> | any;
 export type RouteNextCallback = () => Promise<any> | any;
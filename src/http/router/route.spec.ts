@@ -71,3 +71,15 @@ t.test('HttpRoute::middleware', async t => {
   await handle3(ctx3, async () => { });
   t.same(ctx3.body, { ok: 2 });
 });
+
+t.test('HttpRoute::name', async t => {
+  const r = new HttpRoute(['GET'], '/users/:id', () => 'named');
+  t.equal(r.name, '/users/:id');
+  r.setPath('/api/users/:id');
+  t.equal(r.name, '/api/users/:id', 'unnamed route follows path');
+
+  r.as('users.show');
+  const cloned = r.clone();
+  cloned.setPath('/v1/users/:id');
+  t.equal(cloned.name, 'users.show', 'name is kept when prefixed');
+});
@@ -1,4 +1,4 @@
-import { composeAsync } from '../../support/compose.js';
+import { ComposeAsyncWrap, composeAsync } from '../../support/compose.js';
 import { HTTP_METHOD, RouteMiddlewareCallback } from './contracts.js';
 
 export class HttpRoute<T = any> {
@@ -24,13 +24,17 @@ export class HttpRoute<T = any> {
   }
 
   setPath(path: string) {
+    const previous = this.path;
     this.path = path;
 
     if (this.path !== '/' && this.path.endsWith('/')) {
       this.path = this.path.slice(0, -1);
     }
 
-    this._name = this.path;
+    // keep name given with as(), e.g. when cloned route is prefixed
+    if (this._name === previous) {
+      this._name = this.path;
+    }
 
     this.setPathParamKeys();
     this.setRegex();
@@ -166,14 +170,17 @@ export class HttpRoute<T = any> {
     return this;
   }
 
-  getComposedHandler<T = RouteMiddlewareCallback>() {
+  /**
+   * @param wrap wrapper of each middleware and handler, applied when handler is composed first
+   */
+  getComposedHandler<T = RouteMiddlewareCallback>(wrap?: ComposeAsyncWrap) {
     if (this.composedHandler) {
       return this.composedHandler as T;
     }
     this.composedHandler = composeAsync<T>([
       ...this.middlewares,
       ...(Array.isArray(this.handler) ? this.handler : [this.handler])
-    ]) as T;
+    ], wrap) as T;
     return this.composedHandler as T;
   }
 }
@@ -1,5 +1,6 @@
 import { IRouterOptions, HTTP_METHOD, RouteHandlerCallback, RouteMiddlewareCallback } from './contracts.js';
 import { HttpRoute } from './route.js';
+import { HttpWebSocketHandler, httpWebSocketRoute } from '../ws.js';
 
 export class HttpRouter<Signature = RouteHandlerCallback> {
   readonly routes: Array<HttpRoute> = []
@@ -50,6 +51,15 @@ export class HttpRouter<Signature = RouteHandlerCallback> {
     return this.add<T>('*' as any, path, handler);
   }
 
+  /**
+   * websocket route, handler gets socket once route middlewares pass
+   * @param path
+   * @param handler
+   */
+  ws(path: string, handler: HttpWebSocketHandler) {
+    return this.add('WS', path, httpWebSocketRoute(handler));
+  }
+
   all<T = Signature>(methods: HTTP_METHOD[], path: string, handler: T) {
     const routes = [];
     for (const method of methods) {
@@ -323,6 +333,15 @@ class LinkedRouter<Signature = RouteHandlerCallback> {
     return this.add<T>('*' as any, path, handler);
   }
 
+  /**
+   * websocket route, handler gets socket once route middlewares pass
+   * @param path
+   * @param handler
+   */
+  ws(path: string, handler: HttpWebSocketHandler) {
+    return this.add('WS', path, httpWebSocketRoute(handler));
+  }
+
   add<T = Signature>(method: HTTP_METHOD, path: string, handler: T) {
     path = this._prefix + path;
     if (path.endsWith('/')) {
@@ -0,0 +1,86 @@
+import t from 'tap';
+
+import { HttpRouter } from './router/index.js';
+import { HttpSecurityHeaders, HttpSecurityHeadersOpts } from './security.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(opts: Partial<HttpSecurityHeadersOpts> = {}) {
+  const client = TestHttpApp();
+  const app = client.app;
+  app.use(HttpSecurityHeaders.middleware(opts));
+  app.viewEngine({
+    async render(_ctx, template, data) {
+      return `<${template} nonce="${data.cspNonce}">${data.title}</${template}>`;
+    },
+    async renderError() {
+      return '';
+    },
+  });
+  const router = new HttpRouter();
+  router.get('/page', async ctx => {
+    await ctx.view('script', { title: 'home' });
+  });
+  router.get('/nonce', async ctx => {
+    ctx.json({ nonce: ctx.value('cspNonce') || null });
+  });
+  app.router(router);
+  return client;
+}
+
+t.test('HttpSecurityHeaders sets default headers', async t => {
+  const client = createApp();
+  const res = await client.fetch(new Request('http://localhost/nonce'));
+  t.equal(res.headers.get('strict-transport-security'), 'max-age=15552000; includeSubDomains');
+  t.equal(res.headers.get('x-content-type-options'), 'nosniff');
+  t.equal(res.headers.get('referrer-policy'), 'strict-origin-when-cross-origin');
+  t.equal(res.headers.get('x-frame-options'), 'SAMEORIGIN');
+  t.equal(res.headers.get('permissions-policy'), 'camera=(), microphone=(), geolocation=()');
+
+  const { nonce } = await res.json();
+  t.match(nonce, /^[A-Za-z0-9+/]{22}==$/);
+  const csp = res.headers.get('content-security-policy') as string;
+  t.match(csp, /^default-src 'self'; /);
+  t.match(csp, `script-src 'self' 'nonce-${nonce}'`);
+  t.match(csp, `style-src 'self' https: 'nonce-${nonce}'`);
+  t.match(csp, `object-src 'none'`);
+});
+
+t.test('HttpSecurityHeaders passes nonce to views', async t => {
+  const client = createApp();
+  const first = await client.fetch(new Request('http://localhost/page'));
+  const second = await client.fetch(new Request('http://localhost/page'));
+  const html = await first.text();
+  const nonce = /nonce="([^"]+)"/.exec(html)?.[1];
+  t.match(html, /^<script nonce="[^"]+">home<\/script>$/);
+  t.match(first.headers.get('content-security-policy'), `'nonce-${nonce}'`);
+  t.not(await second.text(), html, 'nonce is per request');
+});
+
+t.test('HttpSecurityHeaders is configurable', async t => {
+  const client = createApp({
+    hsts: { maxAge: 60, includeSubDomains: false, preload: true },
+    frameOptions: false,
+    referrerPolicy: 'no-referrer',
+    permissionsPolicy: { geolocation: ['self', '"https://maps.example.com"'] },
+    csp: {
+      directives: { 'default-src': ["'none'"], 'script-src': ["'self'"], 'upgrade-insecure-requests': [] },
+      nonce: false,
+      reportOnly: true,
+    },
+  });
+  const res = await client.fetch(new Request('http://localhost/nonce'));
+  t.equal(res.headers.get('strict-transport-security'), 'max-age=60; preload');
+  t.equal(res.headers.get('x-frame-options'), null);
+  t.equal(res.headers.get('referrer-policy'), 'no-referrer');
+  t.equal(res.headers.get('permissions-policy'), 'geolocation=(self "https://maps.example.com")');
+  t.equal(res.headers.get('content-security-policy'), null);
+  t.equal(res.headers.get('content-security-policy-report-only'), "default-src 'none'; script-src 'self'; upgrade-insecure-requests");
+  t.same(await res.json(), { nonce: null });
+
+  const disabled = createApp({ hsts: false, csp: false, permissionsPolicy: false, noSniff: false });
+  const plain = await disabled.fetch(new Request('http://localhost/nonce'));
+  t.equal(plain.headers.get('strict-transport-security'), null);
+  t.equal(plain.headers.get('content-security-policy'), null);
+  t.equal(plain.headers.get('permissions-policy'), null);
+  t.equal(plain.headers.get('x-content-type-options'), null);
+});
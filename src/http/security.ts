@@ -0,0 +1,158 @@
+import { randomBytes } from 'node:crypto';
+
+import { IHttpContext } from './context.js';
+import { HTTP_KEY_CSP_NONCE } from './consts.js';
+import { shareViewData } from './view.js';
+
+export interface IHttpHstsOpts {
+  /**
+   * in seconds
+   */
+  maxAge: number
+  includeSubDomains: boolean
+  preload: boolean
+}
+
+export interface IHttpCspOpts {
+  /**
+   * directive name to sources, e.g. `{ 'script-src': ["'self'"] }`, empty list for directives without value
+   */
+  directives: Record<string, string[]>
+  /**
+   * add per-request nonce to script-src and style-src
+   */
+  nonce: boolean
+  /**
+   * send Content-Security-Policy-Report-Only instead
+   */
+  reportOnly: boolean
+}
+
+export interface HttpSecurityHeadersOpts {
+  hsts: Partial<IHttpHstsOpts> | false
+  /**
+   * X-Content-Type-Options: nosniff
+   */
+  noSniff: boolean
+  referrerPolicy: string | false
+  frameOptions: 'DENY' | 'SAMEORIGIN' | false
+  /**
+   * feature to allowed origins, empty list disables feature
+   */
+  permissionsPolicy: Record<string, string[]> | false
+  csp: Partial<IHttpCspOpts> | false
+}
+
+const defaultCspDirectives: Record<string, string[]> = {
+  'default-src': ["'self'"],
+  'base-uri': ["'self'"],
+  'font-src': ["'self'", 'https:', 'data:'],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'self'"],
+  'img-src': ["'self'", 'data:'],
+  'object-src': ["'none'"],
+  'script-src': ["'self'"],
+  'style-src': ["'self'", 'https:'],
+};
+
+const defaultOptions = {
+  hsts: { maxAge: 15552000, includeSubDomains: true, preload: false },
+  noSniff: true,
+  referrerPolicy: 'strict-origin-when-cross-origin',
+  frameOptions: 'SAMEORIGIN' as const,
+  permissionsPolicy: { camera: [], microphone: [], geolocation: [] },
+  csp: { directives: defaultCspDirectives, nonce: true, reportOnly: false },
+};
+
+// directives which accept nonce sources
+const NONCE_DIRECTIVES = ['script-src', 'style-src'];
+
+/**
+ * Security headers middleware, sets HSTS, X-Content-Type-Options, Referrer-Policy,
+ * X-Frame-Options, Permissions-Policy and Content-Security-Policy.
+ * CSP nonce is available as `ctx.value('cspNonce')` and `cspNonce` in view data.
+ */
+export class HttpSecurityHeaders {
+  opts: HttpSecurityHeadersOpts;
+  protected hsts: string | null = null;
+  protected permissionsPolicy: string | null = null;
+
+  constructor(opts: Partial<HttpSecurityHeadersOpts> = {}) {
+    this.opts = {
+      ...defaultOptions,
+      ...opts,
+      hsts: opts.hsts === false ? false : { ...defaultOptions.hsts, ...(opts.hsts || {}) },
+      csp: opts.csp === false ? false : { ...defaultOptions.csp, ...(opts.csp || {}) },
+    };
+    // static headers are built once
+    if (this.opts.hsts) {
+      const hsts = this.opts.hsts as IHttpHstsOpts;
+      this.hsts = `max-age=${hsts.maxAge}`
+        + (hsts.includeSubDomains ? '; includeSubDomains' : '')
+        + (hsts.preload ? '; preload' : '');
+    }
+    if (this.opts.permissionsPolicy) {
+      this.permissionsPolicy = Object.entries(this.opts.permissionsPolicy)
+        .map(([feature, origins]) => `${feature}=(${origins.join(' ')})`)
+        .join(', ');
+    }
+  }
+
+  static middleware(opts: Partial<HttpSecurityHeadersOpts> = {}) {
+    const security = new HttpSecurityHeaders(opts);
+    return security.handle.bind(security);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    if (this.hsts) {
+      ctx.headers.set('Strict-Transport-Security', this.hsts);
+    }
+    if (this.opts.noSniff) {
+      ctx.headers.set('X-Content-Type-Options', 'nosniff');
+    }
+    if (this.opts.referrerPolicy) {
+      ctx.headers.set('Referrer-Policy', this.opts.referrerPolicy);
+    }
+    if (this.opts.frameOptions) {
+      ctx.headers.set('X-Frame-Options', this.opts.frameOptions);
+    }
+    if (this.permissionsPolicy) {
+      ctx.headers.set('Permissions-Policy', this.permissionsPolicy);
+    }
+    if (this.opts.csp) {
+      const csp = this.opts.csp as IHttpCspOpts;
+      let nonce: string | undefined;
+      if (csp.nonce) {
+        nonce = randomBytes(16).toString('base64');
+        ctx.put(HTTP_KEY_CSP_NONCE, nonce);
+        shareViewData(ctx, { cspNonce: nonce });
+      }
+      ctx.headers.set(
+        csp.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy',
+        this.policy(csp.directives, nonce),
+      );
+    }
+    return await next();
+  }
+
+  /**
+   * build policy with nonce
+   * @param directives
+   * @param nonce
+   * @returns {string}
+   */
+  policy(directives: Record<string, string[]>, nonce?: string) {
+    return Object.entries(directives).map(([directive, sources]) => {
+      if (nonce && NONCE_DIRECTIVES.includes(directive)) {
+        sources = [...sources, `'nonce-${nonce}'`];
+      }
+      return sources.length ? `${directive} ${sources.join(' ')}` : directive;
+    }).join('; ');
+  }
+}
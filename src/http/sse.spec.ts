@@ -0,0 +1,133 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { HttpApp } from './app.js';
+import { HttpCompression } from './compress.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { HttpSse, IHttpSseOpts } from './sse.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+import { TestMiddleware } from '../testing/http/middleware.js';
+
+function createApp(opts: Partial<IHttpSseOpts>, handler: (sse: HttpSse) => void) {
+  const client = TestHttpApp();
+  const app = client.app;
+  app.use(HttpCompression.middleware({ threshold: 0 }));
+  const router = new HttpRouter();
+  router.get('/events', async ctx => {
+    handler(ctx.sse(opts));
+  });
+  app.router(router);
+  return client;
+}
+
+async function read(reader: ReadableStreamDefaultReader<Uint8Array>, until: string) {
+  const decoder = new TextDecoder();
+  let text = '';
+  while (!text.includes(until)) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value);
+  }
+  return text;
+}
+
+t.test('ctx.sse() streams events', async t => {
+  const client = createApp({ retry: 3000, heartbeat: false }, sse => {
+    sse.send({ event: 'greeting', data: 'hello\nworld', id: 1 });
+    sse.send({ data: { count: 2 }, id: 'b', retry: 500 });
+    sse.close();
+    t.ok(sse.closed);
+    t.equal(sse.send({ data: 'late' }), false, 'closed stream ignores events');
+  });
+  const res = await client.fetch(new Request('http://localhost/events', { headers: { 'accept-encoding': 'gzip' } }));
+  t.equal(res.status, 200);
+  t.equal(res.headers.get('content-type'), 'text/event-stream; charset=utf-8');
+  t.equal(res.headers.get('cache-control'), 'no-cache, no-transform');
+  t.equal(res.headers.get('content-encoding'), null, 'events are not compressed');
+  t.equal(await res.text(), [
+    'retry: 3000',
+    '',
+    'id: 1',
+    'event: greeting',
+    'data: hello',
+    'data: world',
+    '',
+    'id: b',
+    'retry: 500',
+    'data: {"count":2}',
+    '',
+    '',
+  ].join('\n'));
+});
+
+t.test('ctx.sse() sends heartbeat and cleans up on disconnect', async t => {
+  let writer: HttpSse | undefined;
+  let closed = false;
+  const client = createApp({ heartbeat: 10 }, sse => {
+    writer = sse;
+    sse.onClose(() => closed = true);
+  });
+  const res = await client.fetch(new Request('http://localhost/events', { headers: { 'last-event-id': '41' } }));
+  t.equal(writer?.lastEventId, '41');
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  t.match(await read(reader, ': heartbeat\n\n'), /^:ok\n\n: heartbeat\n\n/);
+
+  await reader.cancel();
+  await sleep(10);
+  t.ok(closed, 'close listener called');
+  t.ok(writer?.closed);
+  t.ok(writer?.signal.aborted);
+});
+
+t.test('ctx.sse() closes when request signal aborts', async t => {
+  const controller = new AbortController();
+  let writer: HttpSse | undefined;
+  const client = createApp({}, sse => writer = sse);
+  await client.fetch(new Request('http://localhost/events', { signal: controller.signal }));
+  t.notOk(writer?.closed);
+  controller.abort();
+  t.ok(writer?.closed);
+});
+
+t.test('ctx.sse() cleans up when client of node server disconnects', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  const router = new HttpRouter();
+  let disconnected: () => void;
+  const closed = new Promise<void>(resolve => disconnected = resolve);
+  router.get('/events', async ctx => {
+    const sse = ctx.sse();
+    sse.send({ data: 'first' });
+    sse.onClose(() => disconnected());
+  });
+  app.router(router);
+  const server = await app.start();
+  t.teardown(() => app.close());
+
+  const controller = new AbortController();
+  const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/events`, { signal: controller.signal });
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  t.equal(await read(reader, 'data: first\n\n'), ':ok\n\ndata: first\n\n');
+  controller.abort();
+  await closed;
+  t.pass('close listener called');
+});
+
+t.test('ctx.sse() events are captured by test context', async t => {
+  const tester = new TestMiddleware(async ctx => {
+    const sse = ctx.sse({ heartbeat: false });
+    sse.send({ event: 'tick', data: 1 });
+    sse.send({ event: 'tick', data: 2 });
+    sse.close();
+  });
+  const result = await tester.run({ path: '/events', headers: { 'last-event-id': '7' } });
+  t.equal(result.getHeader('content-type'), 'text/event-stream; charset=utf-8');
+  t.same(result.response.events, [{ event: 'tick', data: 1 }, { event: 'tick', data: 2 }]);
+  t.equal(result.response.sse?.lastEventId, '7');
+  t.ok(result.response.sse?.closed);
+});
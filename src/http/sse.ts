@@ -0,0 +1,177 @@
+import * as internal from 'node:stream';
+
+import { IHttpContext } from './context.js';
+
+export interface IHttpSseEvent {
+  /**
+   * non string data is sent as json
+   */
+  data: any
+  event?: string
+  id?: string | number
+  /**
+   * reconnection time hint in ms
+   */
+  retry?: number
+}
+
+export interface IHttpSseOpts {
+  /**
+   * interval of heartbeat comments in ms, keeps proxies from closing idle connection
+   */
+  heartbeat: number | false
+  /**
+   * reconnection time hint sent when stream starts, in ms
+   */
+  retry?: number
+}
+
+const defaultOptions = {
+  heartbeat: 15000,
+};
+
+/**
+ * Server-sent events writer, created with `ctx.sse()`.
+ * Stream is closed and heartbeat stopped when client disconnects.
+ */
+export class HttpSse {
+  opts: IHttpSseOpts;
+  readonly stream = new internal.PassThrough();
+  /**
+   * Last-Event-ID sent by reconnecting client, resume events after it
+   */
+  readonly lastEventId: string | undefined;
+  protected controller = new AbortController();
+  protected heartbeatTimer: NodeJS.Timeout | undefined;
+  protected closeListeners: Array<() => void> = [];
+
+  constructor(ctx: IHttpContext, opts: Partial<IHttpSseOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+    this.lastEventId = ctx.headers.get('last-event-id') || undefined;
+
+    // no-transform keeps compression from buffering events
+    ctx.headers.set('Cache-Control', 'no-cache, no-transform');
+    ctx.headers.set('X-Accel-Buffering', 'no');
+    ctx.stream(this.stream, 'text/event-stream; charset=utf-8');
+
+    const cleanup = () => this.cleanup();
+    if (ctx.signal.aborted) {
+      cleanup();
+    } else {
+      ctx.signal.addEventListener('abort', cleanup, { once: true });
+      this.onClose(() => ctx.signal.removeEventListener('abort', cleanup));
+    }
+    // adapters destroy stream when connection closes
+    this.stream.once('close', cleanup);
+
+    if (this.closed) {
+      return;
+    }
+    // first chunk flushes headers, client sees connection open
+    this.write(typeof this.opts.retry == 'number' ? `retry: ${this.opts.retry}\n\n` : ':ok\n\n');
+    if (this.opts.heartbeat) {
+      this.heartbeatTimer = setInterval(() => this.comment('heartbeat'), this.opts.heartbeat);
+    }
+  }
+
+  /**
+   * stream is closed, client disconnected or close() was called
+   */
+  get closed() {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * aborted once stream is closed, pass it to producers of events
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * send event, returns false when stream is closed or its buffer is full
+   * @param event
+   * @returns {boolean}
+   */
+  send(event: IHttpSseEvent) {
+    let frame = '';
+    if (typeof event.id != 'undefined') {
+      frame += `id: ${singleLine(String(event.id))}\n`;
+    }
+    if (event.event) {
+      frame += `event: ${singleLine(event.event)}\n`;
+    }
+    if (typeof event.retry == 'number') {
+      frame += `retry: ${event.retry}\n`;
+    }
+    const data = typeof event.data == 'string' ? event.data : JSON.stringify(event.data);
+    for (const line of String(data).split(/\r\n|\r|\n/)) {
+      frame += `data: ${line}\n`;
+    }
+    return this.write(frame + '\n');
+  }
+
+  /**
+   * comment line, ignored by clients
+   * @param text
+   * @returns {boolean}
+   */
+  comment(text: string) {
+    return this.write(`: ${singleLine(text)}\n\n`);
+  }
+
+  /**
+   * reconnection time hint
+   * @param ms
+   * @returns {boolean}
+   */
+  retry(ms: number) {
+    return this.write(`retry: ${ms}\n\n`);
+  }
+
+  /**
+   * listener called once when stream closes
+   * @param listener
+   */
+  onClose(listener: () => void) {
+    if (this.closed) {
+      listener();
+      return;
+    }
+    this.closeListeners.push(listener);
+  }
+
+  /**
+   * end stream, client will reconnect unless it closes EventSource
+   */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.stream.end();
+    this.cleanup();
+  }
+
+  protected write(chunk: string) {
+    if (this.closed) {
+      return false;
+    }
+    return this.stream.write(chunk);
+  }
+
+  protected cleanup() {
+    if (this.closed) {
+      return;
+    }
+    this.controller.abort();
+    clearInterval(this.heartbeatTimer);
+    if (!this.stream.writableEnded) {
+      this.stream.destroy();
+    }
+    this.closeListeners.splice(0).forEach(listener => listener());
+  }
+}
+
+function singleLine(value: string) {
+  return value.replace(/[\r\n]+/g, ' ');
+}
@@ -0,0 +1,81 @@
+import t from 'tap';
+import { AddressInfo } from 'node:net';
+
+import { HttpApp } from './app.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { HttpTimeout } from './timeout.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+t.test('HttpTimeout responds when deadline passes and aborts ctx.signal', async t => {
+  const client = TestHttpApp({ logErrors: false });
+  const app = client.app;
+  app.use(HttpTimeout.middleware({ timeout: 50 }));
+  const router = new HttpRouter();
+  const reasons: any[] = [];
+  router.get('/fast', async ctx => {
+    ctx.json({ done: true });
+  });
+  router.get('/slow', async ctx => {
+    try {
+      await wait(1000, ctx.signal);
+    } catch (err) {
+      reasons.push(err);
+      throw err;
+    }
+    ctx.json({ done: true });
+  });
+  router.get('/gateway', async ctx => {
+    await wait(1000, ctx.signal);
+  }).middleware(HttpTimeout.middleware({ timeout: 20, status: 504, message: 'Upstream too slow' }));
+  app.router(router);
+
+  let res = await client.fetch(new Request('http://localhost/fast'));
+  t.same(await res.json(), { done: true });
+
+  const started = Date.now();
+  res = await client.fetch(new Request('http://localhost/slow'));
+  t.ok(Date.now() - started < 500);
+  t.equal(res.status, 503);
+  t.same(await res.json(), { message: 'Request timeout' });
+  t.equal(reasons.length, 1);
+  t.equal(reasons[0].status, 503);
+
+  res = await client.fetch(new Request('http://localhost/gateway'));
+  t.equal(res.status, 504, 'route deadline wins over longer global deadline');
+  t.same(await res.json(), { message: 'Upstream too slow' });
+});
+
+t.test('ctx.signal aborts when client disconnects', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf, logErrors: false });
+  const router = new HttpRouter();
+  let cancelled: () => void;
+  const disconnected = new Promise<void>(resolve => cancelled = resolve);
+  router.get('/slow', async ctx => {
+    ctx.signal.addEventListener('abort', () => cancelled());
+    await wait(1000, ctx.signal).catch(() => { });
+  });
+  app.router(router);
+  const server = await app.start();
+  t.teardown(() => app.close());
+
+  const controller = new AbortController();
+  const pending = fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/slow`, { signal: controller.signal });
+  await new Promise(resolve => setTimeout(resolve, 50));
+  controller.abort();
+  await t.rejects(pending);
+  await disconnected;
+  t.pass('handler is notified');
+});
@@ -0,0 +1,85 @@
+import { IHttpContext } from './context.js';
+import { HttpError } from './error.js';
+
+export interface HttpTimeoutOpts {
+  /**
+   * deadline in milliseconds
+   */
+  timeout: number
+  /**
+   * response status when deadline passes
+   */
+  status: 503 | 504
+  message: string
+}
+
+/**
+ * reason of aborted ctx.signal, message is exposed to client
+ */
+export class HttpTimeoutError extends HttpError {
+  readonly expose = true;
+}
+
+const defaultOptions = {
+  timeout: 30000,
+  status: 503 as const,
+  message: 'Request timeout',
+};
+
+/**
+ * Deadline middleware, responds with 503/504 when downstream middlewares and handler
+ * don't finish in time. ctx.signal is aborted with HttpError as reason, so handlers
+ * can cancel their work with `ctx.signal.throwIfAborted()` or by passing it on.
+ */
+export class HttpTimeout {
+  opts: HttpTimeoutOpts;
+
+  constructor(opts: Partial<HttpTimeoutOpts> = {}) {
+    this.opts = { ...defaultOptions, ...opts };
+  }
+
+  static middleware(opts: Partial<HttpTimeoutOpts> = {}) {
+    const timeout = new HttpTimeout(opts);
+    return timeout.handle.bind(timeout);
+  }
+
+  /**
+   *
+   * @param ctx
+   * @param next
+   * @returns {Promise<any>}
+   */
+  async handle(ctx: IHttpContext, next: any) {
+    const parent = ctx.signal;
+    const controller = new AbortController();
+    // client disconnect and outer deadlines still reach downstream
+    const onParentAbort = () => controller.abort(parent.reason);
+    if (parent.aborted) {
+      onParentAbort();
+    } else {
+      parent.addEventListener('abort', onParentAbort, { once: true });
+    }
+    ctx.signal = controller.signal;
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const err = new HttpTimeoutError(this.opts.status, this.opts.message);
+        controller.abort(err);
+        reject(err);
+      }, this.opts.timeout);
+    });
+
+    const pending = Promise.resolve(next());
+    // handler may still fail after deadline, response is already decided
+    pending.catch(() => { });
+
+    try {
+      return await Promise.race([pending, deadline]);
+    } finally {
+      clearTimeout(timer);
+      parent.removeEventListener('abort', onParentAbort);
+      ctx.signal = parent;
+    }
+  }
+}
@@ -1,7 +1,27 @@
 import { IHttpContext } from "./context.js";
 import { IHttpError } from "./response.js";
+import { HTTP_KEY_VIEW_DATA } from "./consts.js";
 
 export interface IViewEngine {
   render(ctx: IHttpContext, template: string, data: any): Promise<any>
   renderError(ctx: IHttpContext, error: IHttpError): Promise<any>
-}
\ No newline at end of file
+}
+
+/**
+ * share data with every view rendered for request, e.g. csp nonce
+ * @param ctx
+ * @param data
+ */
+export function shareViewData(ctx: IHttpContext, data: Record<string, any>) {
+  ctx.put(HTTP_KEY_VIEW_DATA, { ...(ctx.value(HTTP_KEY_VIEW_DATA) || {}), ...data });
+}
+
+/**
+ * merge shared data with view data, view data wins
+ * @param ctx
+ * @param data
+ * @returns {Record<string, any>}
+ */
+export function viewData(ctx: IHttpContext, data: Record<string, any> = {}) {
+  return { ...(ctx.value(HTTP_KEY_VIEW_DATA) || {}), ...data };
+}
@@ -0,0 +1,173 @@
+import t from 'tap';
+import { randomBytes } from 'node:crypto';
+import { IncomingMessage, request } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Duplex } from 'node:stream';
+
+import { HttpApp } from './app.js';
+import { HttpNode } from './node.js';
+import { HttpRouter } from './router/index.js';
+import { HttpWebSocket, webSocketAccept } from './ws.js';
+import { Conf } from '../conf/index.js';
+import { TestHttpRouter } from '../testing/http/router.js';
+import { TestWebSocket, createTestSocketPair } from '../testing/http/ws.js';
+
+function createRouter() {
+  const router = new HttpRouter();
+  const auth = async (ctx: any, next: any) => {
+    if (ctx.query.get('token') != 'secret') {
+      ctx.abort({ status: 401, message: 'Unauthorized', expose: true });
+      return;
+    }
+    ctx.put('user', 'joe');
+    await next();
+  };
+  router.middleware(auth).ws('/chat/:room', (socket, ctx) => {
+    socket.on('message', (data: string) => {
+      socket.send(`${ctx.value('user')}@${ctx.params['room']}: ${data}`);
+    });
+  });
+  router.get('/chat/:room', async ctx => {
+    ctx.json({ room: ctx.params['room'] });
+  });
+  return router;
+}
+
+function connect(port: number, path: string, key = randomBytes(16).toString('base64')) {
+  return new Promise<{ res: IncomingMessage, socket?: TestWebSocket }>((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: { connection: 'Upgrade', upgrade: 'websocket', 'sec-websocket-key': key, 'sec-websocket-version': '13' },
+    });
+    req.on('upgrade', (res, socket, head) => resolve({ res, socket: new TestWebSocket(socket, head) }));
+    req.on('response', res => resolve({ res }));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+t.test('router.ws() upgrades requests on listen() server', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  app.router(createRouter());
+  const server = await app.start();
+  t.teardown(() => app.close());
+  const port = (server.address() as AddressInfo).port;
+
+  const key = randomBytes(16).toString('base64');
+  const { res, socket } = await connect(port, '/chat/lobby?token=secret', key);
+  t.equal(res.statusCode, 101);
+  t.equal(res.headers['sec-websocket-accept'], webSocketAccept(key));
+  t.ok(res.headers['x-req-id'], 'headers set by app are sent');
+  socket?.send('hi');
+  t.equal(await socket?.message(), 'joe@lobby: hi');
+  t.same(await socket?.close(4000, 'bye'), { code: 4000, reason: '' });
+
+  const rejected = await connect(port, '/chat/lobby');
+  t.equal(rejected.res.statusCode, 401);
+  t.notOk(rejected.socket);
+
+  const missing = await connect(port, '/missing?token=secret');
+  t.equal(missing.res.statusCode, 404, 'app is only upgrade listener');
+
+  const plain = await fetch(`http://127.0.0.1:${port}/chat/lobby`);
+  t.same(await plain.json(), { room: 'lobby' }, 'http routes on same path are not affected');
+});
+
+function teapot(req: IncomingMessage, socket: Duplex) {
+  if (req.url?.startsWith('/socket.io/')) {
+    socket.end('HTTP/1.1 418 I\'m a teapot\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+  }
+}
+
+t.test('upgrades without websocket route are left to other upgrade listeners', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  app.router(createRouter());
+  const server = await app.start();
+  t.teardown(() => app.close());
+  server.on('upgrade', teapot);
+  const port = (server.address() as AddressInfo).port;
+
+  t.equal((await connect(port, '/socket.io/?EIO=4&token=secret')).res.statusCode, 418);
+  const { res, socket } = await connect(port, '/chat/lobby?token=secret');
+  t.equal(res.statusCode, 101, 'websocket routes are still served');
+  await socket?.close();
+
+  const plain = new HttpApp({ use: new HttpNode(), conf });
+  plain.router(new HttpRouter());
+  const plainServer = await plain.start();
+  t.teardown(() => plain.close());
+  t.equal(plainServer.listenerCount('upgrade'), 0, 'no listener without websocket routes');
+  plainServer.on('upgrade', teapot);
+  t.equal((await connect((plainServer.address() as AddressInfo).port, '/socket.io/?EIO=4')).res.statusCode, 418);
+});
+
+t.test('app close sends going away to open sockets', async t => {
+  const conf = new Conf({ env: { APP_HOST: '127.0.0.1', APP_PORT: '0' }, mergeEnv: false });
+  const app = new HttpApp({ use: new HttpNode(), conf });
+  app.router(createRouter());
+  const server = await app.start();
+
+  const { socket } = await connect((server.address() as AddressInfo).port, '/chat/lobby?token=secret');
+  await app.close();
+  t.same(await socket?.closed, { code: 1001, reason: 'Server shutting down' });
+});
+
+t.test('TestHttpRouter opens in-process sockets', async t => {
+  const tester = TestHttpRouter(createRouter());
+  const { status, socket, getHeader } = await tester.ws({ path: '/chat/dev', query: { token: 'secret' } });
+  t.equal(status, 101);
+  t.ok(getHeader('x-req-id'));
+  socket?.send('ping');
+  t.equal(await socket?.message(), 'joe@dev: ping');
+  await socket?.close();
+
+  const rejected = await tester.ws({ path: '/chat/dev' });
+  t.equal(rejected.status, 401);
+  t.equal(rejected.socket, null);
+});
+
+t.test('HttpWebSocket frames', async t => {
+  const [serverSide, clientSide] = createTestSocketPair();
+  const server = new HttpWebSocket(serverSide, undefined, { maxPayload: 70000 });
+  const client = new TestWebSocket(clientSide);
+  server.on('message', (data: Buffer | string, binary: boolean) => {
+    server.send(binary ? Buffer.concat([Buffer.from('bin:'), data as Buffer]) : data);
+  });
+
+  client.send('ü'.repeat(100));
+  t.equal(await client.message(), 'ü'.repeat(100), '16 bit length');
+  client.send('x'.repeat(66000));
+  t.equal(await client.message(), 'x'.repeat(66000), '64 bit length');
+  client.send(Buffer.from([1, 2]));
+  t.same(await client.message(), Buffer.from('bin:\x01\x02'));
+
+  let pong = '';
+  client.socket.on('pong', (data: Buffer) => pong = data.toString());
+  client.socket.ping('beat');
+  t.equal(await client.message().catch(() => 'none'), 'none');
+  t.equal(pong, 'beat');
+
+  // fragmented text, masked frames written by hand
+  const frame = (first: number, payload: string) => {
+    const data = Buffer.from(payload);
+    const mask = randomBytes(4);
+    return Buffer.concat([Buffer.from([first, 0x80 | data.length]), mask, data.map((b, i) => b ^ mask[i & 3])]);
+  };
+  clientSide.write(Buffer.concat([frame(0x01, 'hel'), frame(0x89, 'x'), frame(0x80, 'lo')]));
+  t.equal(await client.message(), 'hello');
+
+  client.send('y'.repeat(70001));
+  t.same(await client.closed, { code: 1009, reason: 'Message too big' });
+});
+
+t.test('HttpWebSocket rejects unmasked client frames', async t => {
+  const [serverSide, clientSide] = createTestSocketPair();
+  new HttpWebSocket(serverSide);
+  const client = new TestWebSocket(clientSide);
+  clientSide.write(Buffer.from([0x81, 0x01, 0x61]));
+  t.same(await client.closed, { code: 1002, reason: 'Frame must be masked' });
+});
@@ -0,0 +1,490 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import * as internal from 'node:stream';
+
+import { writeHttpResponse } from './base.js';
+import { HTTP_KEY_UPGRADE } from './consts.js';
+import { IHttpContext } from './context.js';
+import { HttpError } from './error.js';
+import { HttpNodeContext } from './node.js';
+import { bytes } from '../support/file.js';
+
+// RFC 6455 handshake guid
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export type HttpWebSocketData = string | Buffer;
+
+export type HttpWebSocketHandler = (socket: HttpWebSocket, ctx: IHttpContext) => Promise<any> | any;
+
+export interface IHttpWebSocketOpts {
+  /**
+   * max message size, bytes or size like `1mb`, larger messages close socket with 1009
+   */
+  maxPayload: number | string
+  /**
+   * mask outgoing frames, for client side of connection
+   */
+  client: boolean
+  /**
+   * ms to wait for close frame of peer before socket is destroyed
+   */
+  closeTimeout: number
+}
+
+/**
+ * pending upgrade of request, available as `ctx.value('upgrade')`
+ */
+export interface IHttpUpgrade {
+  /**
+   * complete handshake, headers are sent with 101 response
+   * @param headers
+   */
+  accept(headers?: Record<string, string | string[]>): HttpWebSocket
+}
+
+const defaultOptions = {
+  maxPayload: '1mb',
+  client: false,
+  closeTimeout: 5000,
+};
+
+/**
+ * RFC 6455 websocket over upgraded connection, emits
+ * `message` (data, isBinary), `close` (code, reason), `ping`, `pong` and `error`.
+ */
+export class HttpWebSocket extends EventEmitter {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  opts: IHttpWebSocketOpts;
+  readyState = HttpWebSocket.OPEN;
+  protected maxPayload: number;
+  protected buffer: Buffer = Buffer.alloc(0);
+  protected fragments: Buffer[] = [];
+  protected fragmentsLength = 0;
+  protected fragmentOpcode = 0;
+  protected closeCode = 1006;
+  protected closeReason = '';
+  protected closeTimer: NodeJS.Timeout | undefined;
+  // frames after close frame or protocol error are ignored
+  protected receiving = true;
+  protected decoder = new TextDecoder('utf-8', { fatal: true });
+
+  constructor(readonly socket: internal.Duplex, head: Buffer = Buffer.alloc(0), opts: Partial<IHttpWebSocketOpts> = {}) {
+    super();
+    this.opts = { ...defaultOptions, ...opts };
+    this.maxPayload = bytes(this.opts.maxPayload);
+
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('end', () => socket.end());
+    socket.on('error', err => {
+      if (this.listenerCount('error')) {
+        this.emit('error', err);
+      }
+    });
+    socket.once('close', () => this.onSocketClose());
+    if (head.length) {
+      // let handler attach listeners before first message
+      process.nextTick(() => this.receive(head));
+    }
+  }
+
+  /**
+   * send text for strings, binary for buffers, returns false when socket is not open
+   * @param data
+   * @returns {boolean}
+   */
+  send(data: HttpWebSocketData | Uint8Array) {
+    if (typeof data == 'string') {
+      return this.write(OPCODE_TEXT, Buffer.from(data));
+    }
+    return this.write(OPCODE_BINARY, Buffer.from(data));
+  }
+
+  ping(data: HttpWebSocketData = '') {
+    return this.write(OPCODE_PING, Buffer.from(data));
+  }
+
+  pong(data: HttpWebSocketData = '') {
+    return this.write(OPCODE_PONG, Buffer.from(data));
+  }
+
+  /**
+   * start closing handshake
+   * @param code
+   * @param reason
+   */
+  close(code = 1000, reason = '') {
+    if (this.readyState != HttpWebSocket.OPEN) {
+      return;
+    }
+    this.sendClose(code, reason);
+    this.closeTimer = setTimeout(() => this.socket.destroy(), this.opts.closeTimeout);
+  }
+
+  /**
+   * destroy connection without closing handshake
+   */
+  terminate() {
+    this.socket.destroy();
+  }
+
+  protected write(opcode: number, payload: Buffer) {
+    if (this.readyState != HttpWebSocket.OPEN) {
+      return false;
+    }
+    return this.socket.write(this.frame(opcode, payload));
+  }
+
+  protected frame(opcode: number, payload: Buffer) {
+    const length = payload.length;
+    const mask = this.opts.client ? randomBytes(4) : null;
+    let offset = 2;
+    if (length >= 65536) {
+      offset += 8;
+    } else if (length > 125) {
+      offset += 2;
+    }
+    const header = Buffer.alloc(offset + (mask ? 4 : 0));
+    header[0] = 0x80 | opcode;
+    if (length >= 65536) {
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(length), 2);
+    } else if (length > 125) {
+      header[1] = 126;
+      header.writeUInt16BE(length, 2);
+    } else {
+      header[1] = length;
+    }
+    if (!mask) {
+      return Buffer.concat([header, payload]);
+    }
+    header[1] |= 0x80;
+    mask.copy(header, offset);
+    const masked = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      masked[i] = payload[i] ^ mask[i & 3];
+    }
+    return Buffer.concat([header, masked]);
+  }
+
+  protected sendClose(code: number, reason: string) {
+    const payload = code == 1005 ? Buffer.alloc(0) : Buffer.alloc(2 + Buffer.byteLength(reason));
+    if (payload.length) {
+      payload.writeUInt16BE(code, 0);
+      payload.write(reason, 2);
+    }
+    this.socket.write(this.frame(OPCODE_CLOSE, payload));
+    this.readyState = HttpWebSocket.CLOSING;
+  }
+
+  /**
+   * close with protocol error, socket is ended without waiting for peer
+   * @param code
+   * @param reason
+   */
+  protected fail(code: number, reason: string) {
+    this.closeCode = code;
+    this.closeReason = reason;
+    if (this.readyState == HttpWebSocket.OPEN) {
+      this.sendClose(code, reason);
+    }
+    this.receiving = false;
+    this.buffer = Buffer.alloc(0);
+    this.socket.end();
+    this.closeTimer = setTimeout(() => this.socket.destroy(), this.opts.closeTimeout);
+  }
+
+  protected receive(chunk: Buffer) {
+    if (!this.receiving) {
+      return;
+    }
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    while (this.buffer.length >= 2 && this.receiving) {
+      const buf = this.buffer;
+      const fin = (buf[0] & 0x80) != 0;
+      const opcode = buf[0] & 0x0f;
+      const masked = (buf[1] & 0x80) != 0;
+      let length = buf[1] & 0x7f;
+      let offset = 2;
+      if (buf[0] & 0x70) {
+        return this.fail(1002, 'Reserved bits must be clear');
+      }
+      // servers receive masked frames, clients unmasked
+      if (masked == this.opts.client) {
+        return this.fail(1002, masked ? 'Frame must not be masked' : 'Frame must be masked');
+      }
+      if (length == 126) {
+        if (buf.length < 4) {
+          return;
+        }
+        length = buf.readUInt16BE(2);
+        offset = 4;
+      } else if (length == 127) {
+        if (buf.length < 10) {
+          return;
+        }
+        const big = buf.readBigUInt64BE(2);
+        if (big > BigInt(this.maxPayload)) {
+          return this.fail(1009, 'Message too big');
+        }
+        length = Number(big);
+        offset = 10;
+      }
+      if (length > this.maxPayload) {
+        return this.fail(1009, 'Message too big');
+      }
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (buf.length < offset + length) {
+        return;
+      }
+      let payload = buf.subarray(offset, offset + length);
+      if (masked) {
+        payload = Buffer.from(payload);
+        for (let i = 0; i < length; i++) {
+          payload[i] ^= buf[maskOffset + (i & 3)];
+        }
+      }
+      this.buffer = buf.subarray(offset + length);
+      this.onFrame(fin, opcode, payload);
+    }
+  }
+
+  protected onFrame(fin: boolean, opcode: number, payload: Buffer) {
+    if (opcode >= OPCODE_CLOSE) {
+      if (!fin || payload.length > 125) {
+        return this.fail(1002, 'Invalid control frame');
+      }
+      switch (opcode) {
+        case OPCODE_CLOSE:
+          return this.onClose(payload);
+        case OPCODE_PING:
+          this.pong(payload);
+          this.emit('ping', payload);
+          return;
+        case OPCODE_PONG:
+          this.emit('pong', payload);
+          return;
+      }
+      return this.fail(1002, 'Unknown opcode');
+    }
+
+    if (opcode == OPCODE_CONTINUATION) {
+      if (!this.fragmentOpcode) {
+        return this.fail(1002, 'Unexpected continuation frame');
+      }
+    } else if (opcode == OPCODE_TEXT || opcode == OPCODE_BINARY) {
+      if (this.fragmentOpcode) {
+        return this.fail(1002, 'Expected continuation frame');
+      }
+      this.fragmentOpcode = opcode;
+    } else {
+      return this.fail(1002, 'Unknown opcode');
+    }
+
+    this.fragmentsLength += payload.length;
+    if (this.fragmentsLength > this.maxPayload) {
+      return this.fail(1009, 'Message too big');
+    }
+    this.fragments.push(payload);
+    if (!fin) {
+      return;
+    }
+
+    const message = this.fragments.length == 1 ? this.fragments[0] : Buffer.concat(this.fragments);
+    const binary = this.fragmentOpcode == OPCODE_BINARY;
+    this.fragments = [];
+    this.fragmentsLength = 0;
+    this.fragmentOpcode = 0;
+    if (binary) {
+      this.emit('message', message, true);
+      return;
+    }
+    let text: string;
+    try {
+      text = this.decoder.decode(message);
+    } catch {
+      return this.fail(1007, 'Invalid UTF-8');
+    }
+    this.emit('message', text, false);
+  }
+
+  protected onClose(payload: Buffer) {
+    if (payload.length == 1) {
+      return this.fail(1002, 'Invalid close frame');
+    }
+    this.closeCode = payload.length ? payload.readUInt16BE(0) : 1005;
+    this.closeReason = payload.subarray(2).toString();
+    this.receiving = false;
+    if (this.readyState == HttpWebSocket.OPEN) {
+      // echo close of peer
+      this.sendClose(this.closeCode, '');
+    }
+    this.socket.end();
+  }
+
+  protected onSocketClose() {
+    clearTimeout(this.closeTimer);
+    this.readyState = HttpWebSocket.CLOSED;
+    this.emit('close', this.closeCode, this.closeReason);
+  }
+}
+
+/**
+ * Sec-WebSocket-Accept value of key
+ * @param key
+ * @returns {string}
+ */
+export function webSocketAccept(key: string) {
+  return createHash('sha1').update(key + WS_GUID).digest('base64');
+}
+
+/**
+ * route handler of `router.ws()`, accepts upgrade after route middlewares
+ * @param handler
+ * @returns {Function}
+ */
+export function httpWebSocketRoute(handler: HttpWebSocketHandler) {
+  return async (ctx: IHttpContext) => {
+    const upgrade = ctx.value<IHttpUpgrade>(HTTP_KEY_UPGRADE);
+    if (!upgrade) {
+      ctx.headers.set('Upgrade', 'websocket');
+      ctx.abort({ status: 426, message: 'Upgrade Required', expose: true });
+      return;
+    }
+    await handler(upgrade.accept(ctx.response.headers), ctx);
+  };
+}
+
+// headers of http response not sent with 101
+const SKIP_UPGRADE_HEADERS = ['connection', 'upgrade', 'content-type', 'content-length', 'transfer-encoding'];
+
+/**
+ * Upgrade listener of node:http server, runs upgrade requests through http app handler
+ * so `router.ws()` routes get app and route middlewares. Requests not accepted by a
+ * websocket route get regular http response, unless server has other upgrade listeners,
+ * then requests without websocket route are left to them.
+ */
+export class HttpWebSocketServer {
+  opts: Partial<IHttpWebSocketOpts>;
+  readonly clients = new Set<HttpWebSocket>();
+  protected closed = false;
+
+  /**
+   * @param handler
+   * @param opts
+   * @param routed true when path has websocket route
+   */
+  constructor(
+    protected handler: (ctx: IHttpContext, next: any) => Promise<any>,
+    opts: Partial<IHttpWebSocketOpts> = {},
+    protected routed: (path: string) => boolean = () => true,
+  ) {
+    this.opts = { ...opts, client: false };
+  }
+
+  /**
+   * listener for `upgrade` event of server
+   * @param server upgrade listeners of server added by others get requests without websocket route
+   * @returns {Function}
+   */
+  listener(server?: EventEmitter) {
+    return (req: IncomingMessage, socket: internal.Duplex, head: Buffer) => {
+      if (server && server.listenerCount('upgrade') > 1 && !this.routed(new URL(req.url || '/', 'http://localhost').pathname)) {
+        return;
+      }
+      this.upgrade(req, socket, head).catch(err => {
+        console.error(err);
+        socket.destroy();
+      });
+    };
+  }
+
+  async upgrade(req: IncomingMessage, socket: internal.Duplex, head: Buffer) {
+    socket.on('error', () => { });
+    const res = new ServerResponse(req);
+    res.shouldKeepAlive = false;
+    res.assignSocket(socket as Socket);
+    res.once('finish', () => socket.end());
+    const ctx = new HttpNodeContext(req, res);
+
+    if (this.closed || (req.headers.upgrade || '').toLowerCase() != 'websocket') {
+      writeHttpResponse(res, { status: this.closed ? 503 : 400, headers: {}, body: null });
+      return;
+    }
+
+    let upgraded = false;
+    ctx.put(HTTP_KEY_UPGRADE, {
+      accept: (headers: Record<string, string | string[]> = {}) => {
+        const ws = this.accept(req, socket, head, headers);
+        res.detachSocket(socket as Socket);
+        upgraded = true;
+        return ws;
+      },
+    } as IHttpUpgrade);
+
+    await this.handler(ctx, async () => { });
+    if (!upgraded) {
+      // not found, rejected by middleware or failed handshake
+      writeHttpResponse(res, ctx.payload());
+    }
+  }
+
+  /**
+   * close open sockets with going away
+   * @param code
+   * @param reason
+   */
+  close(code = 1001, reason = 'Server shutting down') {
+    this.closed = true;
+    this.clients.forEach(client => client.close(code, reason));
+  }
+
+  protected accept(req: IncomingMessage, socket: internal.Duplex, head: Buffer, headers: Record<string, string | string[]>) {
+    const key = req.headers['sec-websocket-key'];
+    if (typeof key != 'string' || Buffer.from(key, 'base64').length != 16) {
+      throw new HttpError(400, 'Invalid Sec-WebSocket-Key');
+    }
+    if (req.headers['sec-websocket-version'] != '13') {
+      throw new HttpError(426, 'Unsupported WebSocket version');
+    }
+
+    const lines = [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${webSocketAccept(key)}`,
+    ];
+    for (const name in headers) {
+      if (SKIP_UPGRADE_HEADERS.includes(name.toLowerCase())) {
+        continue;
+      }
+      const value = headers[name];
+      (Array.isArray(value) ? value : [value]).forEach(v => lines.push(`${name}: ${v}`));
+    }
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+    if (socket instanceof Socket) {
+      socket.setTimeout(0);
+      socket.setNoDelay(true);
+    }
+
+    const ws = new HttpWebSocket(socket, head, this.opts);
+    this.clients.add(ws);
+    ws.once('close', () => this.clients.delete(ws));
+    return ws;
+  }
+}
@@ -3,11 +3,13 @@ export * as Config from './conf/index.js';
 export * as Container from './container/index.js';
 export * as Dam from './dam/index.js';
 export * as Event from './event/index.js';
+export * as Health from './health/index.js';
 export * as Http from './http/index.js';
 export * as Support from './support/index.js';
 export * as Testing from './testing/index.js';
+export * as Trace from './trace/index.js';
 
 
 export { Astad, AstadCompose, AstadContext } from './astad/index.js';
-export { HttpApp, HttpKoa, HttpCors } from './http/index.js';
+export { HttpApp, HttpKoa, HttpExpress, HttpFetch, HttpNode, HttpAccessLog, HttpCors, HttpBodyParser, HttpMultipart, HttpTimeout, HttpRateLimit, HttpCompression, HttpConditionalGet, HttpSecurityHeaders, HttpCsrf, HttpMetrics, HttpMetricsRegistry } from './http/index.js';
 export { HttpRouter } from './http/router/index.js';
\ No newline at end of file
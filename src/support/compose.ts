@@ -1,7 +1,11 @@
 export type NextAsync = () => Promise<any>;
 export type ComposeAsyncCallback<C> = (ctx: C, next: NextAsync) => Promise<any>;
+/**
+ * wraps call of each composed middleware, e.g. to trace it
+ */
+export type ComposeAsyncWrap = (run: () => Promise<any>, fn: Function, index: number) => Promise<any>;
 
-export function composeAsync<C = any, F = ComposeAsyncCallback<C>>(middleware: F[]) {
+export function composeAsync<C = any, F = ComposeAsyncCallback<C>>(middleware: F[], wrap?: ComposeAsyncWrap) {
   if (!Array.isArray(middleware)) throw new TypeError('Middleware stack must be an array!')
   for (const fn of middleware) {
     if (typeof fn !== 'function') throw new TypeError('Middleware must be composed of functions!')
@@ -18,6 +22,9 @@ export function composeAsync<C = any, F = ComposeAsyncCallback<C>>(middleware: F
       if (i === middleware.length) fn = next
       if (!fn) return Promise.resolve()
       try {
+        if (wrap && fn !== next) {
+          return Promise.resolve(wrap(() => fn(context, dispatch.bind(null, i + 1)), fn, i));
+        }
         return Promise.resolve(fn(context, dispatch.bind(null, i + 1)));
       } catch (err) {
         return Promise.reject(err)
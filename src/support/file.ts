@@ -9,4 +9,27 @@ export function checksum(path: fs.PathLike, algorithm: string = 'sha1', encoding
     stream.on('data', chunk => hash.update(chunk));
     stream.on('end', () => resolve(hash.digest(encoding)));
   });
-}
\ No newline at end of file
+}
+
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * convert size like `1mb` or `56kb` to bytes, numbers are returned as is
+ * @param size
+ * @returns {number}
+ */
+export function bytes(size: number | string): number {
+  if (typeof size == 'number') {
+    return size;
+  }
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+  if (!match) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+  return Math.floor(parseFloat(match[1]) * BYTE_UNITS[(match[2] || 'b').toLowerCase()]);
+}
@@ -1,3 +1,5 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+
 const defaultCharacters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
 
 export function randomstr(length = 16, characters = defaultCharacters) {
@@ -13,4 +15,33 @@ export function randomstr(length = 16, characters = defaultCharacters) {
 
 export function randomnum(max: number, min = 0) {
   return Math.random() * (max - min) + min;
-}
\ No newline at end of file
+}
+
+/**
+ * random uuid v4
+ * @returns {string}
+ */
+export function uuidv4() {
+  return randomUUID();
+}
+
+// crockford base32
+const ULID_ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * lexicographically sortable identifier, 48 bit time and 80 bit randomness
+ * @param time milliseconds since epoch
+ * @returns {string}
+ */
+export function ulid(time = Date.now()) {
+  let encodedTime = '';
+  for (let i = 0; i < 10; i++) {
+    encodedTime = ULID_ENCODING.charAt(time % 32) + encodedTime;
+    time = Math.floor(time / 32);
+  }
+  let encodedRandom = '';
+  for (const byte of randomBytes(16)) {
+    encodedRandom += ULID_ENCODING.charAt(byte % 32);
+  }
+  return encodedTime + encodedRandom;
+}
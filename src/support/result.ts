@@ -1,3 +1,5 @@
+import { STATUS_CODES } from 'node:http';
+
 export interface IHttpError {
   status: number
   message: string
@@ -130,11 +132,33 @@ export class ResultError extends Error {
     return new ResultError(error.message, error.code, error.data);
   }
 
-  toHttpResponse() {
+  /**
+   * @param format problem for RFC 9457 problem details
+   * @param instance correlation id, used with problem format
+   */
+  toHttpResponse(format: 'default' | 'problem' = 'default', instance?: string) {
+    const message = this.expose ? this.message : 'Internal server error.';
+    if (format == 'problem') {
+      const body: Record<string, any> = {
+        ...(this.data || {}),
+        type: 'about:blank',
+        title: STATUS_CODES[this.status] || 'Unknown Error',
+        status: this.status,
+        detail: message,
+      };
+      if (instance) {
+        body['instance'] = instance;
+      }
+      return {
+        status: this.status,
+        headers: { 'content-type': 'application/problem+json' },
+        body,
+      };
+    }
     return {
       status: this.status,
       body: {
-        message: this.expose ? this.message : 'Internal server error.',
+        message,
         ...(this.data || {}),
       }
     };
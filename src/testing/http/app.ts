@@ -0,0 +1,41 @@
+import { HttpApp, IHttpAppOpts } from '../../http/app.js';
+import { HttpFetch, IHttpFetchInfo } from '../../http/fetch.js';
+import { Conf } from '../../conf/index.js';
+
+/**
+ * HttpApp served by fetch adapter, to test app middlewares and routes end to end without a server.
+ * Handler is composed on first request, so middlewares and routers can be added after creation.
+ *
+ * @example
+ * ```ts
+ * const { app, fetch } = TestHttpApp({ logErrors: false });
+ * app.use(HttpBodyParser.middleware());
+ * app.router(router);
+ *
+ * const res = await fetch('/users', { method: 'POST', body: '{}' });
+ * ```
+ */
+export function TestHttpApp(opts: Partial<IHttpAppOpts> = {}) {
+  const adapter = new HttpFetch();
+  const app = new HttpApp({ conf: new Conf(), ...opts, use: adapter });
+  let handled = false;
+
+  return {
+    app,
+    adapter,
+    /**
+     * handle request, paths are resolved against `http://localhost`
+     * @param input
+     * @param init applied to input, also when it is a request
+     * @param info connection details, e.g. remote address
+     * @returns {Promise<Response>}
+     */
+    fetch(input: Request | string, init?: RequestInit, info?: IHttpFetchInfo) {
+      if (!handled) {
+        adapter.handler(app.handler());
+        handled = true;
+      }
+      return adapter.fetch(new Request(typeof input == 'string' ? new URL(input, 'http://localhost') : input, init), info);
+    },
+  };
+}
@@ -2,8 +2,11 @@ import * as internal from 'node:stream';
 
 import { HttpCookies, HttpRequestHeaders, HttpRequestQuery, IHttpContext, IHttpCookies } from '../../http/context.js';
 import { IHttpError, IHttpResponse } from '../../http/response.js';
-import { IViewEngine } from '../../http/view.js';
-import { HTTP_KEY_VIEW_PROVIDER } from '../../http/consts.js';
+import { IViewEngine, viewData } from '../../http/view.js';
+import { HTTP_KEY_ERROR_FORMAT, HTTP_KEY_REQ_ID, HTTP_KEY_TRUST_PROXY, HTTP_KEY_VIEW_PROVIDER } from '../../http/consts.js';
+import { HTTP_PROBLEM_CONTENT_TYPE, HttpErrorFormat, httpAbortBody } from '../../http/error.js';
+import { HttpSse, IHttpSseEvent, IHttpSseOpts } from '../../http/sse.js';
+import { HttpTrustProxy, IHttpForwarded, httpForwarded } from '../../http/proxy.js';
 import { IHttpFile, ITestHttpContext, ITestHttpResponse } from './contracts.js';
 import { TestHttpError } from './error.js';
 
@@ -22,6 +25,7 @@ export class TestHttpContext implements IHttpContext {
     redirect: undefined,
   }
   aborted: boolean = false;
+  signal: AbortSignal;
 
   protected _reply: IHttpResponse | null = null;
 
@@ -41,6 +45,8 @@ export class TestHttpContext implements IHttpContext {
         this.setHeader(k, v);
       });
     this.cookies = new HttpCookies("");
+    this.signal = ctx.signal || new AbortController().signal;
+    this.trustProxy(ctx);
   }
 
   modify(ctx: ITestHttpContext) {
@@ -51,14 +57,33 @@ export class TestHttpContext implements IHttpContext {
       (k: string, v: string | string[]) => {
         this.setHeader(k, v);
       });
+    this.trustProxy(ctx);
+  }
+
+  /**
+   * ip, protocol and host given in test context are treated as connected peer
+   * @param ctx
+   */
+  protected trustProxy(ctx: ITestHttpContext) {
+    if (typeof ctx.trustProxy != 'undefined') {
+      this.put(HTTP_KEY_TRUST_PROXY, HttpTrustProxy.from(ctx.trustProxy));
+    }
+  }
+
+  protected get forwarded(): IHttpForwarded | null {
+    return httpForwarded(this, {
+      address: this.ctx.ip || '127.0.0.1',
+      encrypted: this.ctx.protocol == 'https',
+      host: this.ctx.host || '127.0.0.1',
+    });
   }
 
   setHeader(k: string, v: string | string[]) {
-    this.response.headers[k] = v;
+    this.response.headers[k.toLowerCase()] = v;
   }
 
   get host() {
-    return this.ctx.host || '127.0.0.1' as string;
+    return this.forwarded?.host ?? (this.ctx.host || '127.0.0.1');
   }
 
   get path() {
@@ -87,7 +112,7 @@ export class TestHttpContext implements IHttpContext {
   }
 
   get protocol() {
-    return this.ctx.protocol || 'http';
+    return this.forwarded?.protocol ?? (this.ctx.protocol || 'http');
   }
 
   get secure() {
@@ -95,19 +120,31 @@ export class TestHttpContext implements IHttpContext {
   }
 
   get ip() {
-    return this.ctx.ip || '127.0.0.1';
+    return this.forwarded?.ip ?? (this.ctx.ip || '127.0.0.1');
   }
 
   get ips() {
-    return this.ctx.ips || [this.ip];
+    return this.forwarded?.ips ?? (this.ctx.ips || [this.ip]);
   }
 
   get body() {
     return this.ctx.body;
   }
 
+  set body(body: any) {
+    this.ctx.body = body;
+  }
+
   get files() {
-    return (this.ctx.files || {}) as Record<string, IHttpFile>;
+    return (this.ctx.files || {}) as Record<string, IHttpFile | IHttpFile[]>;
+  }
+
+  set files(files: Record<string, IHttpFile | IHttpFile[]>) {
+    this.ctx.files = files;
+  }
+
+  requestStream() {
+    return internal.Readable.from(typeof this.ctx.rawBody == 'undefined' ? [] : [Buffer.from(this.ctx.rawBody)]);
   }
 
   is(...types: string[]): string | null | false {
@@ -157,6 +194,13 @@ export class TestHttpContext implements IHttpContext {
 
   abort(...args: any): void {
     this.aborted = true;
+    if (this.value<HttpErrorFormat>(HTTP_KEY_ERROR_FORMAT) == 'problem') {
+      const err = (args.length == 1 && typeof args[0] != 'number' ? args[0] : { status: args[0], message: args[1], data: args[2] }) as IHttpError;
+      this.response.status = err.status;
+      this.response.headers['content-type'] = HTTP_PROBLEM_CONTENT_TYPE;
+      this.response.body = httpAbortBody('problem', err.status, err.message, err.data, this.value(HTTP_KEY_REQ_ID));
+      return;
+    }
     if (args.length == 1) {
       if (typeof args[0] == 'number') {
         this.response.status = args[0];
@@ -179,6 +223,11 @@ export class TestHttpContext implements IHttpContext {
    */
   reply(response: IHttpResponse) {
     this._reply = response;
+    for (const key in response.headers || {}) {
+      this.setHeader(key, (response.headers as Record<string, string | string[]>)[key]);
+    }
+    this.response.status = response.status;
+    this.response.body = response.body;
   }
 
   stream(stream: internal.Readable, mime: string = 'application/octet-stream') {
@@ -187,6 +236,18 @@ export class TestHttpContext implements IHttpContext {
     this.response.body = stream;
   }
 
+  /**
+   * sent events are captured in `response.events`
+   * @param opts
+   * @returns {HttpSse}
+   */
+  sse(opts: Partial<IHttpSseOpts> = {}) {
+    const sse = new TestHttpSse(this, opts);
+    this.response.sse = sse;
+    this.response.events = sse.events;
+    return sse;
+  }
+
   redirect(url: string, alt?: string | undefined): void {
     this.response.redirect = { url, alt };
   }
@@ -197,7 +258,7 @@ export class TestHttpContext implements IHttpContext {
       throw new Error('view engine is not set.');
     }
     this.response.status = status;
-    this.response.body = await view.render(this, template, data);
+    this.response.body = await view.render(this, template, viewData(this, data));
     this.willRender = true;
   }
 
@@ -220,4 +281,15 @@ export class TestHttpContext implements IHttpContext {
   value<T = any>(key: any): T | undefined {
     return this.state[key];
   }
-}
\ No newline at end of file
+}
+
+class TestHttpSse extends HttpSse {
+  events: IHttpSseEvent[] = [];
+
+  send(event: IHttpSseEvent) {
+    if (!this.closed) {
+      this.events.push(event);
+    }
+    return super.send(event);
+  }
+}
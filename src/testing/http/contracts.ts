@@ -1,10 +1,8 @@
-export interface IHttpFile {
-  originalName: string
-  type: string
-  size: number
-  path: string
-  extension: string
-}
+import { IHttpFile } from '../../http/context.js';
+import { HttpSse, IHttpSseEvent } from '../../http/sse.js';
+import { HttpTrustProxy, HttpTrustProxyOpt } from '../../http/proxy.js';
+
+export type { IHttpFile };
 
 export interface ITestHttpContext {
   host?: string
@@ -12,12 +10,27 @@ export interface ITestHttpContext {
   path: string
   protocol?: string
   URL?: URL
+  /**
+   * address of connected peer
+   */
   ip?: string
   ips?: string[]
+  /**
+   * trusted proxies, forwarded headers then set ip, ips, protocol and host
+   */
+  trustProxy?: HttpTrustProxyOpt | HttpTrustProxy
   body?: any
+  /**
+   * raw request body, for body parsers
+   */
+  rawBody?: string | Buffer
   query?: Record<string, string | string[]>
   headers?: Record<string, string | string[]>
-  files?: Record<string, IHttpFile>
+  files?: Record<string, IHttpFile | IHttpFile[]>
+  /**
+   * abort it to simulate client disconnect
+   */
+  signal?: AbortSignal
 }
 
 export interface ITestHttpResponse<T = any> {
@@ -25,4 +38,12 @@ export interface ITestHttpResponse<T = any> {
   status: number,
   body: T,
   redirect?: { url: string, alt?: string }
+  /**
+   * set by sse()
+   */
+  sse?: HttpSse
+  /**
+   * events sent with sse()
+   */
+  events?: IHttpSseEvent[]
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
+export * from './app.js';
 export * from './context.js';
 export * from './contracts.js';
 export * from './error.js';
 export * from './file.js';
 export * from './router.js';
-export * from './middleware.js';
\ No newline at end of file
+export * from './middleware.js';
+export * from './ws.js';
\ No newline at end of file
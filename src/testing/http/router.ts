@@ -1,22 +1,21 @@
 import { AsyncLocalStorage } from "async_hooks";
-import { HTTP_KEY_REQ_ID } from "../../http/consts.js";
+import { HTTP_KEY_REQ_ID, HTTP_KEY_ROUTE, HTTP_KEY_UPGRADE } from "../../http/consts.js";
 import { HttpRouter } from "../../index.js";
 import { TestHttpContext } from "./context.js";
 import { ITestHttpContext } from "./contracts.js";
 import { IHttpContext } from "../../http/context.js";
+import { HttpCorrelationId, runWithCorrelationId } from "../../http/correlation.js";
+import { HttpWebSocket, IHttpUpgrade } from "../../http/ws.js";
+import { TestWebSocket, createTestSocketPair } from "./ws.js";
 
 export function TestHttpRouter(router: HttpRouter) {
-  let correlationIdCount = 0;
-  const correlationIdGenerator = () => correlationIdCount++;
+  const correlation = new HttpCorrelationId();
   const asyncLocalStorage = new AsyncLocalStorage<IHttpContext>();
 
   const handler = async (ctx: IHttpContext) => {
     try {
-      const reqid = correlationIdGenerator().toString();
-      ctx.headers.set('x-req-id', reqid);
-      ctx.set(HTTP_KEY_REQ_ID, reqid);
-
-      const route = router.find(ctx.method as any, ctx.path, ctx.params);
+      const route = router.find(ctx.value(HTTP_KEY_UPGRADE) ? 'WS' : ctx.method as any, ctx.path, ctx.params);
+      ctx.set(HTTP_KEY_ROUTE, route);
       if (route) {
         // execute route
         await route.getComposedHandler()(ctx, async () => { });
@@ -36,6 +35,17 @@ export function TestHttpRouter(router: HttpRouter) {
     }
   };
 
+  const run = async (ctx: TestHttpContext) => {
+    const reqid = correlation.resolve(ctx);
+    ctx.headers.set('x-req-id', reqid);
+    ctx.set(HTTP_KEY_REQ_ID, reqid);
+
+    // execute handler in async context
+    await asyncLocalStorage.run(ctx, async () => {
+      await runWithCorrelationId(reqid, () => handler(ctx));
+    });
+  };
+
   return {
     asyncLocalStorage,
     req(req: ITestHttpContext) {
@@ -43,47 +53,68 @@ export function TestHttpRouter(router: HttpRouter) {
         async exec() {
           // create context
           const ctx = new TestHttpContext(req);
-
-          // execute handler in async context
-          await asyncLocalStorage.run(ctx, async () => {
-            await handler(ctx)
-          });
-
-          /**
-           * create response object
-           */
-          return new class implements ITestHttpRouteResponse {
-            error = ctx.value<Error>('errored') || null;
-            headers = ctx.response.headers
-            status = ctx.response.status
-            _jsonbody: any = null;
-
-            hasError() {
-              return !!this.error;
-            }
-            body<T = any>() {
-              return ctx.response.body as T;
-            }
-            json<T = any>() {
-              if (this._jsonbody) {
-                return this._jsonbody as T;
-              }
-              return this._jsonbody = JSON.parse(JSON.stringify(ctx.response.body)) as T;
-            }
-            getHeader(name: string): string | undefined {
-              const val = ctx.response.headers[name.toLowerCase()];
-              if (Array.isArray(val)) {
-                return val[0]
-              }
-              return val;
-            }
-          } as ITestHttpRouteResponse;
+          await run(ctx);
+          return createTestHttpRouteResponse(ctx);
         },
       };
     },
+    /**
+     * open in-process websocket to `router.ws()` route, socket is null when upgrade is not accepted
+     * @param req
+     * @returns {Promise<ITestWebSocketResponse>}
+     */
+    async ws(req: ITestHttpContext): Promise<ITestWebSocketResponse> {
+      const ctx = new TestHttpContext(req);
+      let socket: TestWebSocket | null = null;
+      ctx.set(HTTP_KEY_UPGRADE, {
+        accept: (headers: Record<string, string | string[]> = {}) => {
+          const [server, client] = createTestSocketPair();
+          for (const key in headers) {
+            ctx.setHeader(key, headers[key]);
+          }
+          ctx.response.status = 101;
+          socket = new TestWebSocket(client);
+          return new HttpWebSocket(server);
+        },
+      } as IHttpUpgrade);
+      await run(ctx);
+      return Object.assign(createTestHttpRouteResponse(ctx), { socket });
+    },
   };
 }
 
+/**
+ * create response object
+ */
+function createTestHttpRouteResponse(ctx: TestHttpContext) {
+  return new class implements ITestHttpRouteResponse {
+    error = ctx.value<Error>('errored') || null;
+    headers = ctx.response.headers
+    status = ctx.response.status
+    _jsonbody: any = null;
+
+    hasError() {
+      return !!this.error;
+    }
+    body<T = any>() {
+      return ctx.response.body as T;
+    }
+    json<T = any>() {
+      if (this._jsonbody) {
+        return this._jsonbody as T;
+      }
+      return this._jsonbody = JSON.parse(JSON.stringify(ctx.response.body)) as T;
+    }
+    getHeader(name: string): string | undefined {
+      const val = ctx.response.headers[name.toLowerCase()];
+      if (Array.isArray(val)) {
+        return val[0]
+      }
+      return val;
+    }
+  } as ITestHttpRouteResponse;
+}
+
 export interface ITestHttpRouteResponse {
   error: any
   headers: Record<string, string | string[]>
@@ -92,4 +123,8 @@ export interface ITestHttpRouteResponse {
   body<T = any>(): T
   json<T = any>(): T
   getHeader(name: string): string | undefined
-}
\ No newline at end of file
+}
+
+export interface ITestWebSocketResponse extends ITestHttpRouteResponse {
+  socket: TestWebSocket | null
+}
@@ -0,0 +1,103 @@
+import * as internal from 'node:stream';
+
+import { HttpWebSocket, HttpWebSocketData } from '../../http/ws.js';
+
+/**
+ * connected in-memory sockets, data written to one side is read from other
+ * @returns {[internal.Duplex, internal.Duplex]}
+ */
+export function createTestSocketPair(): [internal.Duplex, internal.Duplex] {
+  const sides: internal.Duplex[] = [];
+  const create = (other: number) => new internal.Duplex({
+    read() { },
+    write(chunk, _encoding, cb) {
+      sides[other].push(chunk);
+      cb();
+    },
+    final(cb) {
+      sides[other].push(null);
+      cb();
+    },
+    destroy(err, cb) {
+      sides[other].destroy();
+      cb(err);
+    },
+  });
+  sides.push(create(1), create(0));
+  return sides as [internal.Duplex, internal.Duplex];
+}
+
+/**
+ * Client side of in-process websocket, opened with `TestHttpRouter(router).ws()`.
+ *
+ * @example
+ * ```ts
+ * const { socket } = await TestHttpRouter(router).ws({ path: '/chat/1' });
+ * socket.send('hello');
+ * expect(await socket.message()).toBe('echo: hello');
+ * ```
+ */
+export class TestWebSocket {
+  readonly socket: HttpWebSocket;
+  /**
+   * resolves with close code and reason
+   */
+  readonly closed: Promise<{ code: number, reason: string }>;
+  protected queue: HttpWebSocketData[] = [];
+  protected waiting: Array<(data: HttpWebSocketData) => void> = [];
+
+  constructor(duplex: internal.Duplex, head?: Buffer) {
+    this.socket = new HttpWebSocket(duplex, head, { client: true });
+    this.socket.on('message', (data: HttpWebSocketData) => {
+      const resolve = this.waiting.shift();
+      if (resolve) {
+        resolve(data);
+        return;
+      }
+      this.queue.push(data);
+    });
+    this.closed = new Promise(resolve => {
+      this.socket.once('close', (code: number, reason: string) => resolve({ code, reason }));
+    });
+  }
+
+  send(data: HttpWebSocketData) {
+    return this.socket.send(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.socket.close(code, reason);
+    return this.closed;
+  }
+
+  /**
+   * next message sent by server
+   * @param timeout ms
+   * @returns {Promise<HttpWebSocketData>}
+   */
+  message(timeout = 1000): Promise<HttpWebSocketData> {
+    if (this.queue.length) {
+      return Promise.resolve(this.queue.shift() as HttpWebSocketData);
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = this.waiting.filter(waiting => waiting !== done);
+        reject(new Error(`No message received in ${timeout}ms`));
+      }, timeout);
+      const done = (data: HttpWebSocketData) => {
+        clearTimeout(timer);
+        resolve(data);
+      };
+      this.waiting.push(done);
+    });
+  }
+
+  /**
+   * next message parsed as json
+   * @param timeout ms
+   * @returns {Promise<T>}
+   */
+  async json<T = any>(timeout?: number): Promise<T> {
+    return JSON.parse((await this.message(timeout)).toString());
+  }
+}
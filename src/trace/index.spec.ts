@@ -0,0 +1,145 @@
+import t from 'tap';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { TraceJsonFileExporter, TraceMemoryExporter, Tracer, activeSpan, traceChild, traceMiddleware, traceparent } from './index.js';
+import { HttpRouter } from '../http/router/index.js';
+import { composeAsync } from '../support/compose.js';
+import { TestHttpApp } from '../testing/http/app.js';
+
+function createApp(tracer?: Tracer) {
+  const client = TestHttpApp({ tracer });
+  const app = client.app;
+  app.use(async function logger(_ctx: any, next: any) {
+    await next();
+  });
+  app.use(async function slow(_ctx: any, next: any) {
+    await sleep(20);
+    await next();
+  });
+  const router = new HttpRouter();
+  const auth = async function auth(ctx: any, next: any) {
+    ctx.put('user', 'joe');
+    await next();
+  };
+  router.middleware(auth).get('/users/:id', async ctx => {
+    ctx.json({ id: ctx.params['id'], traceparent: traceparent() });
+  }).as('users.show');
+  router.get('/fail', async () => {
+    throw new Error('failed');
+  });
+  app.router(router);
+  return client;
+}
+
+t.test('spans of request, middlewares and route handler', async t => {
+  const exporter = new TraceMemoryExporter();
+  const client = createApp(new Tracer({ exporter }));
+  const res = await client.fetch(new Request('http://localhost/users/1'));
+  const body = await res.json();
+
+  const [request, ...spans] = exporter.trace(exporter.spans[0].traceId);
+  t.equal(request.name, 'GET users.show');
+  t.equal(request.kind, 'server');
+  t.equal(request.parentId, undefined);
+  t.match(request.attributes, { 'http.method': 'GET', 'url.path': '/users/1', 'http.route': 'users.show', 'http.status_code': 200, 'request.id': res.headers.get('x-req-id') });
+  t.ok(request.duration >= 20, 'request span covers middlewares');
+
+  t.same(spans.map(span => span.name), ['middleware logger', 'middleware slow', 'route users.show', 'middleware auth', 'middleware #1']);
+  t.equal(spans[0].parentId, request.spanId);
+  t.equal(spans[1].parentId, spans[0].spanId, 'middleware spans are nested by next()');
+  t.equal(spans[2].parentId, spans[1].spanId);
+  t.equal(spans[3].parentId, spans[2].spanId);
+  t.equal(spans[4].parentId, spans[3].spanId);
+  t.ok(spans[1].duration >= 20);
+
+  t.match(body.traceparent, new RegExp(`^00-${request.traceId}-${spans[4].spanId}-01$`), 'active span is available to handler');
+});
+
+t.test('incoming traceparent continues trace', async t => {
+  const exporter = new TraceMemoryExporter();
+  const client = createApp(new Tracer({ exporter }));
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  await client.fetch(new Request('http://localhost/users/2', { headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` } }));
+  t.ok(exporter.spans.length > 1);
+  t.ok(exporter.spans.every(span => span.traceId == traceId));
+  t.equal(exporter.spans.find(span => span.kind == 'server')?.parentId, '00f067aa0ba902b7');
+
+  exporter.clear();
+  await client.fetch(new Request('http://localhost/users/2', { headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-00` } }));
+  t.equal(exporter.spans.length, 0, 'unsampled traces are not exported');
+
+  await client.fetch(new Request('http://localhost/users/2', { headers: { traceparent: 'invalid' } }));
+  t.notOk(exporter.spans.some(span => span.traceId == traceId), 'invalid header starts new trace');
+});
+
+t.test('failed requests mark spans with error', async t => {
+  const exporter = new TraceMemoryExporter();
+  const client = createApp(new Tracer({ exporter }));
+  const res = await client.fetch(new Request('http://localhost/fail'));
+  t.equal(res.status, 500);
+  const request = exporter.spans.find(span => span.kind == 'server');
+  t.equal(request?.status, 'error');
+  t.equal(request?.attributes['http.status_code'], 500);
+  const route = exporter.spans.find(span => span.name == 'route /fail');
+  t.equal(route?.status, 'error');
+  t.equal(route?.attributes['exception.message'], 'failed');
+});
+
+t.test('no spans without tracer or active span', async t => {
+  const client = createApp();
+  const res = await client.fetch(new Request('http://localhost/users/3'));
+  t.equal((await res.json()).traceparent, undefined);
+
+  let active: any = 'unset';
+  await composeAsync([async () => { active = activeSpan(); }], traceMiddleware)({}, async () => { });
+  t.equal(active, undefined);
+  t.equal(traceChild('noop', () => 1), 1);
+});
+
+t.test('tracer.trace() and sample rate', async t => {
+  const exporter = new TraceMemoryExporter();
+  const tracer = new Tracer({ exporter });
+  const result = await tracer.trace('job', async span => {
+    span.setAttribute('job.id', 7);
+    return traceChild('step', () => activeSpan()?.name);
+  });
+  t.equal(result, 'step');
+  t.same(exporter.spans.map(span => span.name), ['step', 'job']);
+  t.equal(exporter.spans[1].attributes['job.id'], 7);
+  t.throws(() => tracer.trace('sync', () => { throw new Error('sync failure'); }));
+  t.equal(exporter.spans[2].status, 'error');
+
+  const unsampled = new TraceMemoryExporter();
+  new Tracer({ exporter: unsampled, sampleRate: 0 }).trace('dropped', () => { });
+  t.equal(unsampled.spans.length, 0);
+});
+
+t.test('json file exporter appends span lines', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'astad-trace-'));
+  t.teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'traces', 'spans.ndjson');
+  const tracer = new Tracer({ exporter: new TraceJsonFileExporter(file) });
+  const client = createApp(tracer);
+  await client.fetch(new Request('http://localhost/users/4'));
+  await client.app.close();
+
+  const spans = fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  t.equal(spans.length, 6);
+  t.equal(spans[spans.length - 1].name, 'GET users.show', 'request span ends last');
+  t.ok(spans.every(span => span.traceId == spans[0].traceId));
+});
+
+t.test('json file exporter reports directory errors on export', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'astad-trace-'));
+  t.teardown(() => fs.rmSync(dir, { recursive: true, force: true }));
+  fs.writeFileSync(path.join(dir, 'traces'), '');
+  const exporter = new TraceJsonFileExporter(path.join(dir, 'traces', 'spans.ndjson'));
+  await t.rejects(exporter.export([]) as Promise<void>, /ENOTDIR|EEXIST/);
+
+  fs.rmSync(path.join(dir, 'traces'));
+  await exporter.export([]);
+  t.ok(fs.existsSync(path.join(dir, 'traces', 'spans.ndjson')), 'directory is created once possible');
+});
@@ -0,0 +1,368 @@
+/**
+ * @module trace
+ * @added v0.2.19
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { performance } from 'node:perf_hooks';
+
+import { parseTraceparent } from '../http/correlation.js';
+
+export type TraceSpanKind = 'server' | 'client' | 'internal';
+
+export type TraceSpanStatus = 'unset' | 'ok' | 'error';
+
+export type TraceAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface ITraceSpanContext {
+  traceId: string
+  spanId: string
+  sampled: boolean
+}
+
+/**
+ * ended span as received by exporters, times are in ms since epoch
+ */
+export interface ITraceSpanData {
+  traceId: string
+  spanId: string
+  parentId?: string
+  name: string
+  kind: TraceSpanKind
+  start: number
+  end: number
+  duration: number
+  status: TraceSpanStatus
+  attributes: TraceAttributes
+}
+
+export interface ITraceExporter {
+  export(spans: ITraceSpanData[]): Promise<void> | void
+  /**
+   * flush pending spans
+   */
+  shutdown?(): Promise<void>
+}
+
+export interface ITraceSpanOpts {
+  /**
+   * parent span or remote parent extracted from `traceparent`, defaults to active span
+   */
+  parent?: TraceSpan | ITraceSpanContext | null
+  kind?: TraceSpanKind
+  attributes?: TraceAttributes
+}
+
+export interface ITracerOpts {
+  exporter: ITraceExporter
+  /**
+   * ratio of root traces exported, remote parents decide for their traces
+   * @default 1
+   */
+  sampleRate?: number
+}
+
+const storage = new AsyncLocalStorage<TraceSpan>();
+
+/**
+ * span active in current async flow
+ * @returns {TraceSpan|undefined}
+ */
+export function activeSpan(): TraceSpan | undefined {
+  return storage.getStore();
+}
+
+/**
+ * run function in child span of active span, function is called as is when no span is active
+ * @param name
+ * @param fn
+ * @param attributes
+ */
+export function traceChild<T>(name: string, fn: () => T, attributes?: TraceAttributes): T {
+  const parent = activeSpan();
+  if (!parent) {
+    return fn();
+  }
+  return parent.tracer.startSpan(name, { parent, attributes }).run(fn);
+}
+
+/**
+ * run middleware in child span of active span, wrapper of composed middlewares
+ * @param run
+ * @param fn middleware, its name names the span
+ * @param index
+ */
+export function traceMiddleware<T>(run: () => T, fn: Function, index: number): T {
+  const name = fn.name.replace(/^bound /, '');
+  return traceChild(`middleware ${name || `#${index}`}`, run, { 'middleware.index': index });
+}
+
+/**
+ * `traceparent` header of active span, sent with outgoing requests to continue trace
+ * @returns {string|undefined}
+ */
+export function traceparent(): string | undefined {
+  return activeSpan()?.traceparent();
+}
+
+function now() {
+  return performance.timeOrigin + performance.now();
+}
+
+export class TraceSpan {
+  readonly context: ITraceSpanContext;
+  readonly start = now();
+  protected endTime: number | null = null;
+  protected _status: TraceSpanStatus = 'unset';
+  protected attributes: TraceAttributes;
+
+  constructor(
+    readonly tracer: Tracer,
+    public name: string,
+    readonly kind: TraceSpanKind,
+    readonly parentId: string | undefined,
+    context: Omit<ITraceSpanContext, 'spanId'>,
+    attributes: TraceAttributes = {},
+  ) {
+    this.context = { ...context, spanId: randomBytes(8).toString('hex') };
+    this.attributes = { ...attributes };
+  }
+
+  get ended() {
+    return this.endTime !== null;
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined) {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: TraceAttributes) {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  setStatus(status: TraceSpanStatus) {
+    this._status = status;
+    return this;
+  }
+
+  /**
+   * mark span failed with error
+   * @param err
+   */
+  recordError(err: any) {
+    this._status = 'error';
+    this.attributes['exception.type'] = err?.name || typeof err;
+    this.attributes['exception.message'] = err?.message ?? String(err);
+    return this;
+  }
+
+  /**
+   * end span and hand it to exporter, only first call has effect
+   */
+  end() {
+    if (this.endTime !== null) {
+      return;
+    }
+    this.endTime = now();
+    this.tracer.export(this);
+  }
+
+  /**
+   * run function with this span active, span ends when function settles
+   * @param fn
+   */
+  run<T>(fn: () => T): T {
+    return storage.run(this, () => {
+      let result: T;
+      try {
+        result = fn();
+      } catch (err) {
+        this.recordError(err).end();
+        throw err;
+      }
+      if (result instanceof Promise) {
+        return result.then(value => {
+          this.end();
+          return value;
+        }, err => {
+          this.recordError(err).end();
+          throw err;
+        }) as T;
+      }
+      this.end();
+      return result;
+    });
+  }
+
+  /**
+   * W3C trace context header value
+   * @returns {string}
+   */
+  traceparent() {
+    return `00-${this.context.traceId}-${this.context.spanId}-${this.context.sampled ? '01' : '00'}`;
+  }
+
+  toJSON(): ITraceSpanData {
+    const end = this.endTime ?? now();
+    return {
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentId: this.parentId,
+      name: this.name,
+      kind: this.kind,
+      start: this.start,
+      end,
+      duration: end - this.start,
+      status: this._status,
+      attributes: { ...this.attributes },
+    };
+  }
+}
+
+/**
+ * Creates spans and hands ended, sampled spans to exporter
+ *
+ * @example
+ * ```ts
+ * const tracer = new Tracer({ exporter: new TraceJsonFileExporter('storage/traces.ndjson') });
+ * const httpApp = new HttpApp({ use: new HttpNode(), conf, tracer });
+ * ```
+ */
+export class Tracer {
+  protected pending = new Set<Promise<void>>();
+
+  constructor(protected opts: ITracerOpts) { }
+
+  get exporter() {
+    return this.opts.exporter;
+  }
+
+  /**
+   * remote parent of `traceparent` header
+   * @param header
+   * @returns {ITraceSpanContext|null}
+   */
+  extract(header: string | null | undefined): ITraceSpanContext | null {
+    const parsed = parseTraceparent(header || undefined);
+    if (!parsed) {
+      return null;
+    }
+    return { traceId: parsed.traceId, spanId: parsed.parentId, sampled: (parseInt(parsed.flags, 16) & 1) == 1 };
+  }
+
+  startSpan(name: string, opts: ITraceSpanOpts = {}) {
+    const parent = typeof opts.parent == 'undefined' ? activeSpan() : opts.parent;
+    const parentContext = parent instanceof TraceSpan ? parent.context : parent;
+    const context = parentContext
+      ? { traceId: parentContext.traceId, sampled: parentContext.sampled }
+      : { traceId: randomBytes(16).toString('hex'), sampled: Math.random() < (this.opts.sampleRate ?? 1) };
+    return new TraceSpan(this, name, opts.kind || 'internal', parentContext?.spanId, context, opts.attributes);
+  }
+
+  /**
+   * run function in new span
+   * @param name
+   * @param fn
+   * @param opts
+   */
+  trace<T>(name: string, fn: (span: TraceSpan) => T, opts: ITraceSpanOpts = {}): T {
+    const span = this.startSpan(name, opts);
+    return span.run(() => fn(span));
+  }
+
+  /**
+   * used by ended spans
+   * @param span
+   */
+  export(span: TraceSpan) {
+    if (!span.context.sampled) {
+      return;
+    }
+    try {
+      const result = this.opts.exporter.export([span.toJSON()]);
+      if (result instanceof Promise) {
+        const pending: Promise<void> = result.catch(err => console.error(err)).finally(() => this.pending.delete(pending));
+        this.pending.add(pending);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  /**
+   * wait for pending exports and shutdown exporter
+   */
+  async shutdown() {
+    await Promise.all(this.pending);
+    await this.opts.exporter.shutdown?.();
+  }
+}
+
+/**
+ * keeps spans in memory, for tests and local inspection
+ */
+export class TraceMemoryExporter implements ITraceExporter {
+  readonly spans: ITraceSpanData[] = [];
+
+  constructor(protected limit = 10000) { }
+
+  export(spans: ITraceSpanData[]) {
+    this.spans.push(...spans);
+    if (this.spans.length > this.limit) {
+      this.spans.splice(0, this.spans.length - this.limit);
+    }
+  }
+
+  /**
+   * spans of trace in start order
+   * @param traceId
+   * @returns {ITraceSpanData[]}
+   */
+  trace(traceId: string) {
+    return this.spans.filter(span => span.traceId == traceId).sort((a, b) => a.start - b.start);
+  }
+
+  clear() {
+    this.spans.splice(0);
+  }
+}
+
+/**
+ * appends spans to file as json lines
+ */
+export class TraceJsonFileExporter implements ITraceExporter {
+  protected queue: Promise<void> = Promise.resolve();
+  protected created = false;
+
+  constructor(readonly file: string) { }
+
+  export(spans: ITraceSpanData[]) {
+    const lines = spans.map(span => `${JSON.stringify(span)}\n`).join('');
+    // writes are serialized, so lines of concurrent exports don't interleave
+    const written = this.queue.then(() => this.write(lines));
+    this.queue = written.catch(() => undefined);
+    return written;
+  }
+
+  async shutdown() {
+    await this.queue;
+  }
+
+  protected async write(lines: string) {
+    // directory is created with first write, failed attempts are retried on next export
+    if (!this.created) {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      this.created = true;
+    }
+    await fs.promises.appendFile(this.file, lines);
+  }
+}